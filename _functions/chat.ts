@@ -0,0 +1,95 @@
+import { z } from 'zod';
+import { chatCompletions } from '../functions/_lib/ai';
+import {
+  authenticate,
+  authorizeModel,
+  chargeTokens,
+} from '../functions/_lib/auth';
+import { chatMessageSchema } from '../functions/_lib/chat';
+import { collectCompletion } from '../functions/_lib/completion';
+import {
+  badRequest,
+  notFound,
+  toErrorResponse,
+} from '../functions/_lib/errors';
+import { createResponse } from '../functions/_lib/http';
+import { findModel, getDefaultModel } from '../functions/_lib/models';
+import {
+  getModerationConfig,
+  moderateCompletion,
+  moderateMessages,
+} from '../functions/_lib/moderation';
+import {
+  resolveSamplingParams,
+  samplingShape,
+} from '../functions/_lib/sampling';
+import { createStore } from '../functions/_lib/storage';
+
+// Only fields this route understands, anything else is rejected rather
+// than passed on to the backend
+const chatSchema = z
+  .object({
+    model: z.string().optional(),
+    messages: z.array(chatMessageSchema).min(1),
+    // Streaming is not offered here, `stream: true` still gets one response
+    stream: z.boolean().optional(),
+    ...samplingShape,
+  })
+  .strict();
+
+/**
+ * Non-streaming chat route, answered by whichever provider serves the
+ * requested model with the same keys, usage and error handling as
+ * /v1/chat/completions
+ */
+export async function onRequestPost({ 请求, env }: any) {
+  try {
+    const rateLimitStore = createStore(env, 'ratelimit:');
+    const auth = await authenticate(请求, env, rateLimitStore);
+
+    const json = await 请求.json().catch(() => {
+      throw badRequest(
+        'Request body must be valid JSON.',
+        undefined,
+        'invalid_json'
+      );
+    });
+    const parsed = chatSchema.safeParse(json);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      const param = issue.path.join('.');
+      throw badRequest(
+        param ? `${param}: ${issue.message}` : issue.message,
+        param || undefined,
+        'invalid_value'
+      );
+    }
+
+    const { model = getDefaultModel().id, messages } = parsed.data;
+    const modelConfig = findModel(model, env);
+    if (!modelConfig) {
+      throw notFound(`Invalid model: ${model}`, 'model_not_found', 'model');
+    }
+    const sampling = resolveSamplingParams(parsed.data, modelConfig);
+    await authorizeModel(auth, model, rateLimitStore);
+
+    const moderation = getModerationConfig(env);
+    const moderationContext = { requestId: crypto.randomUUID() };
+    if (moderation) {
+      await moderateMessages(messages, moderation, moderationContext);
+    }
+
+    const upstream = await chatCompletions(
+      { ...sampling, model, messages },
+      env
+    );
+    const completion = await collectCompletion(upstream, model, messages);
+    await chargeTokens(auth, completion.usage.total_tokens, rateLimitStore);
+    if (moderation) {
+      await moderateCompletion(completion, moderation, moderationContext);
+    }
+    return createResponse(completion);
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
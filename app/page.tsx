@@ -4,32 +4,51 @@
 import { useState, useRef, useEffect } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
+import { Source } from '@/components/Source';
+import { ThinkDrawer } from '@/components/ThinkDrawer';
+import { Citation } from '@/components/Citation';
+import type { Message, ModelOption } from '@/components/types';
 
-interface Message {
-  role: 'user' | 'assistant';
-  content: string;
+// 服务端返回的错误，直接把错误信息展示给用户
+class ServerError extends Error {
+  name = 'ServerError';
 }
 
-// 模型配置
-const MODEL_OPTIONS = [
-  { id: '@tx/deepseek-ai/deepseek-r1-distill-qwen-32b', name: 'DeepSeek R1 32B' },
-  { id: '@tx/deepseek-ai/deepseek-r1-0528', name: 'DeepSeek R1 0528' },
-  { id: '@tx/deepseek-ai/deepseek-v3-0324', name: 'DeepSeek V3 0324' },
-  { id: '@hf/meta-llama/meta-llama-3.1-8b-instruct', name: 'LLaMA 3.1 8B' },
-  { id: '@hf/qwen/qwen2.5-7b-instruct', name: 'Qwen 2.5 7B' },
-  { id: '@hf/google/gemma-2-9b-it', name: 'Gemma 2 9B' },
-];
+const translate = (en: string) => ({ References: '参考来源', 'Thinking Process': '思考过程' } as Record<string, string>)[en] || en;
+
+// 把 [citation:X] 标记转换为 Markdown 链接，渲染时替换为引用角标
+const linkCitations = (content: string) =>
+  content.replace(/\[citation:(\d+)\]/g, '[$1](#citation-$1)');
+
+// 接口地址，开发环境下由 NEXT_PUBLIC_BASE_URL 指向 completions 接口，未设置时使用 /v1
+const API_BASE = (process.env.NODE_ENV === 'development'
+  ? (process.env.NEXT_PUBLIC_BASE_URL || '').replace(/\/chat\/completions\/?$/, '')
+  : '') || '/v1';
 
 export default function NewAIInterface() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isStreaming, setIsStreaming] = useState(false);
-  const [selectedModel, setSelectedModel] = useState(MODEL_OPTIONS[2].id); // 默认使用 DeepSeek V3
+  const [modelOptions, setModelOptions] = useState<ModelOption[]>([]);
+  const [selectedModel, setSelectedModel] = useState('');
   const [showModelSelector, setShowModelSelector] = useState(false);
+  // 点击正文中的引用角标时高亮对应的参考来源
+  const [activeCitation, setActiveCitation] = useState<{ message: number; index: number; key: number } | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
 
+  // 从后端加载可用模型，保证只展示接口支持的模型
+  useEffect(() => {
+    fetch(`${API_BASE}/models`)
+      .then(res => res.json())
+      .then(({ data }: { data: ModelOption[] }) => {
+        setModelOptions(data);
+        setSelectedModel(prev => prev || (data.find(m => m.default) || data[0])?.id || '');
+      })
+      .catch(error => console.error('Failed to load models:', error));
+  }, []);
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
@@ -56,9 +75,7 @@ export default function NewAIInterface() {
     setMessages(prev => [...prev, { role: 'assistant', content: '' }]);
 
     try {
-      const url = process.env.NODE_ENV === 'development' 
-        ? process.env.NEXT_PUBLIC_BASE_URL!
-        : '/v1/chat/completions';
+      const url = `${API_BASE}/chat/completions`;
 
       abortControllerRef.current = new AbortController();
       
@@ -76,45 +93,84 @@ export default function NewAIInterface() {
             { role: 'user', content: userMessage }
           ],
           network: false,
-          model: selectedModel
+          model: selectedModel || undefined
         }),
         signal: abortControllerRef.current.signal
       });
 
       if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        if (body?.error?.message) {
+          throw new ServerError(body.error.message);
+        }
         throw new Error(`HTTP error! status: ${response.status}`);
       }
 
       const reader = response.body!.getReader();
       const decoder = new TextDecoder();
       let accumulatedContent = '';
+      let accumulatedThink = '';
+      let sources: Message['source'];
+      let searchStatus: Message['searchStatus'];
+      let buffer = '';
+      let eventName = '';
+
+      const updateAssistant = () => {
+        setMessages(prev => {
+          const newMessages = [...prev];
+          newMessages[newMessages.length - 1] = {
+            role: 'assistant',
+            content: accumulatedContent,
+            think: accumulatedThink,
+            source: sources,
+            searchStatus
+          };
+          return newMessages;
+        });
+      };
 
       while (true) {
         const { done, value } = await reader.read();
         if (done) break;
 
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n');
+        // 按行解析，保留被截断的最后一行等待下一个分片
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
         
         for (const line of lines) {
-          if (line.trim() && line.startsWith('data: ')) {
+          if (!line.trim()) {
+            eventName = '';
+          } else if (line.startsWith('event: ')) {
+            eventName = line.slice(7).trim();
+          } else if (line.startsWith('data: ')) {
+            const data = line.slice(6);
+            if (data === '[DONE]') continue;
+
+            let json;
             try {
-              const json = JSON.parse(line.slice(6));
-              const token = json.choices?.[0]?.delta?.content || '';
-              
-              accumulatedContent += token;
-              
-              setMessages(prev => {
-                const newMessages = [...prev];
-                newMessages[newMessages.length - 1] = {
-                  role: 'assistant',
-                  content: accumulatedContent
-                };
-                return newMessages;
-              });
+              json = JSON.parse(data);
             } catch (e) {
               console.error('Parse error:', e);
+              continue;
+            }
+
+            if (eventName === 'error') {
+              throw new ServerError(json.error?.message || '服务端错误');
             }
+
+            if (eventName === 'sources') {
+              sources = json.sources;
+              searchStatus = json.search_status;
+              updateAssistant();
+              continue;
+            }
+
+            // 推理过程单独放在 reasoning_content 中
+            const delta = json.choices?.[0]?.delta;
+            accumulatedThink += delta?.reasoning_content || '';
+            accumulatedContent += delta?.content || '';
+            updateAssistant();
           }
         }
       }
@@ -127,7 +183,9 @@ export default function NewAIInterface() {
           ...prev.slice(0, -1),
           { 
             role: 'assistant', 
-            content: '抱歉，出现了错误。请重试。' 
+            content: error instanceof ServerError
+              ? error.message
+              : '抱歉，出现了错误。请重试。'
           }
         ]);
       }
@@ -154,7 +212,7 @@ export default function NewAIInterface() {
     "解释一下区块链技术"
   ];
 
-  const currentModelName = MODEL_OPTIONS.find(m => m.id === selectedModel)?.name || 'Unknown';
+  const currentModelName = modelOptions.find(m => m.id === selectedModel)?.name || 'Unknown';
 
   return (
     <div className="flex flex-col h-screen bg-gradient-to-br from-slate-50 to-blue-50">
@@ -186,7 +244,7 @@ export default function NewAIInterface() {
               {showModelSelector && (
                 <div className="absolute right-0 mt-2 w-64 bg-white rounded-lg shadow-lg border border-gray-200 z-10">
                   <div className="p-2">
-                    {MODEL_OPTIONS.map((model) => (
+                    {modelOptions.map((model) => (
                       <button
                         key={model.id}
                         onClick={() => {
@@ -201,10 +259,7 @@ export default function NewAIInterface() {
                       >
                         <div className="font-medium">{model.name}</div>
                         <div className="text-xs text-gray-500 mt-0.5">
-                          {model.id.includes('deepseek') ? 'DeepSeek 系列' : 
-                           model.id.includes('llama') ? 'Meta 系列' :
-                           model.id.includes('qwen') ? '阿里通义系列' :
-                           'Google 系列'}
+                          {model.family} 系列{model.reasoning ? ' • 深度思考' : ''}
                         </div>
                       </button>
                     ))}
@@ -259,6 +314,21 @@ export default function NewAIInterface() {
                         : 'bg-white text-gray-800 shadow-sm border border-gray-200'
                     }`}
                   >
+                    {message.role === 'assistant' && (
+                      <Source
+                        sources={message.source}
+                        t={translate}
+                        highlight={activeCitation?.message === index ? activeCitation : undefined}
+                      />
+                    )}
+                    {message.role === 'assistant' && message.think && (
+                      <ThinkDrawer content={message.think} t={translate} />
+                    )}
+                    {(message.searchStatus === 'no_results' || message.searchStatus === 'failed') && (
+                      <p className="mb-2 text-xs text-gray-400">
+                        {message.searchStatus === 'failed' ? '联网搜索失败' : '未找到相关网页'}，本次回答未使用联网搜索结果
+                      </p>
+                    )}
                     {message.role === 'assistant' ? (
                       <ReactMarkdown
                         remarkPlugins={[remarkGfm]}
@@ -281,16 +351,32 @@ export default function NewAIInterface() {
                               </code>
                             );
                           },
-                          a: ({ node, ...props }) => (
-                            <a
-                              {...props}
-                              target="_blank"
-                              className="text-blue-600 hover:text-blue-800"
-                            />
-                          ),
+                          a: ({ node, href, ...props }) => {
+                            const citation = href?.match(/^#citation-(\d+)$/);
+                            if (citation) {
+                              const citationIndex = Number(citation[1]);
+                              return (
+                                <Citation
+                                  index={citationIndex}
+                                  source={message.source?.[citationIndex - 1]}
+                                  onSelect={(i) => setActiveCitation({ message: index, index: i, key: Date.now() })}
+                                />
+                              );
+                            }
+                            return (
+                              <a
+                                {...props}
+                                href={href}
+                                target="_blank"
+                                className="text-blue-600 hover:text-blue-800"
+                              />
+                            );
+                          },
                         }}
                       >
-                        {message.content || '思考中...'}
+                        {message.content
+                          ? linkCitations(message.content)
+                          : '思考中...'}
                       </ReactMarkdown>
                     ) : (
                       <p className="whitespace-pre-wrap">{message.content}</p>
@@ -0,0 +1,40 @@
+'use client';
+
+import React from 'react';
+import type { SourceItem } from './types';
+
+export const Citation = ({
+  index,
+  source,
+  onSelect,
+}: {
+  index: number;
+  source?: SourceItem;
+  onSelect: (index: number) => void;
+}) => {
+  if (!source) return null;
+
+  return (
+    <span className="relative inline-block group align-super">
+      <button
+        onClick={() => onSelect(index)}
+        className="mx-0.5 px-1.5 min-w-[1.25rem] text-[10px] leading-4 text-blue-600 bg-blue-50 rounded-full hover:bg-blue-100"
+      >
+        {index}
+      </button>
+      <span className="absolute left-0 z-10 hidden w-64 p-2 mb-1 text-xs text-left bg-white border border-gray-200 rounded-lg shadow-lg bottom-full group-hover:block">
+        <span className="block font-medium text-gray-800 line-clamp-2">
+          {source.title}
+        </span>
+        {source.domain && (
+          <span className="block mt-0.5 text-gray-400">{source.domain}</span>
+        )}
+        {source.snippet && (
+          <span className="block mt-1 text-gray-600 line-clamp-3">
+            {source.snippet}
+          </span>
+        )}
+      </span>
+    </span>
+  );
+};
@@ -1,15 +1,31 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 
 export const Source = ({
   sources,
   t,
+  highlight,
 }: {
   sources?: { url: string; title: string }[];
   t: (en: string) => string;
+  // Entry picked from an inline citation, `key` changes on every click
+  highlight?: { index: number; key: number };
 }) => {
   const [isOpen, setIsOpen] = useState(true);
+  const itemRefs = useRef<(HTMLAnchorElement | null)[]>([]);
+
+  useEffect(() => {
+    if (!highlight) return;
+    setIsOpen(true);
+    // Wait for the list to render when it was collapsed
+    requestAnimationFrame(() => {
+      itemRefs.current[highlight.index - 1]?.scrollIntoView({
+        behavior: 'smooth',
+        block: 'center',
+      });
+    });
+  }, [highlight]);
 
   if (!sources?.length) return null;
 
@@ -39,11 +55,16 @@ export const Source = ({
           {sources.map((source, index) => (
             <a
               key={index}
+              ref={(el) => {
+                itemRefs.current[index] = el;
+              }}
               onClick={(e) => {
                 e.preventDefault();
                 window.open(source.url, '_blank');
               }}
-              className="block text-blue-600 cursor-pointer hover:text-blue-800 hover:underline"
+              className={`block px-1 -mx-1 rounded text-blue-600 cursor-pointer transition-colors hover:text-blue-800 hover:underline ${
+                highlight?.index === index + 1 ? 'bg-yellow-100' : ''
+              }`}
             >
               {index + 1}. {source.title}
             </a>
@@ -3,11 +3,20 @@ export interface MessageContent {
   think?: string;
 }
 
+export interface SourceItem {
+  index: number;
+  title: string;
+  url: string;
+  snippet: string;
+  domain: string;
+}
+
 export interface Message {
   role: 'user' | 'assistant';
   content: string;
   think?: string;
-  source?: { title: string; url: string }[];
+  source?: SourceItem[];
+  searchStatus?: 'ok' | 'relaxed' | 'no_results' | 'failed';
 }
 
 export interface KeywordButton {
@@ -18,4 +27,10 @@ export interface KeywordButton {
 export interface ModelOption {
   id: string;
   name: string;
+  family: string;
+  context_window: number;
+  max_output_tokens: number;
+  reasoning: boolean;
+  tools: boolean;
+  default: boolean;
 } 
\ No newline at end of file
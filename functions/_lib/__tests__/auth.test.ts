@@ -0,0 +1,161 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import {
+  authenticate,
+  authorizeModel,
+  chargeTokens,
+  loadApiKeys,
+} from '../auth';
+import { ApiError } from '../errors';
+import { consumeRequest } from '../ratelimit';
+import { createMemoryStore, type KeyValueStore } from '../storage';
+
+const MODEL = '@tx/deepseek-ai/deepseek-v3-0324';
+
+const request = (key?: string) =>
+  new Request('https://example.com/v1/chat/completions', {
+    method: 'POST',
+    headers: key ? { Authorization: `Bearer ${key}` } : {},
+  });
+
+// Each test counts against its own store
+let store: KeyValueStore;
+let errors: string[] = [];
+const error = console.error;
+
+beforeEach(() => {
+  store = createMemoryStore(`auth-test:${Math.random()}:`);
+  errors = [];
+  console.error = (...args: unknown[]) => {
+    errors.push(args.join(' '));
+  };
+});
+afterEach(() => {
+  console.error = error;
+});
+
+const rejectsWith = (status: number, code: string) => (error: unknown) =>
+  error instanceof ApiError && error.status === status && error.code === code;
+
+describe('loadApiKeys', () => {
+  it('reads a comma separated list with the default limits', () => {
+    assert.deepEqual(
+      loadApiKeys({ API_KEYS: 'sk-a, sk-b,', RATE_LIMIT_RPM: '30' }),
+      [
+        { key: 'sk-a', requestsPerMinute: 30, tokensPerDay: undefined },
+        { key: 'sk-b', requestsPerMinute: 30, tokensPerDay: undefined },
+      ]
+    );
+    assert.deepEqual(loadApiKeys({}), []);
+  });
+
+  it('reads a JSON list with per-key limits and models', () => {
+    const [key] = loadApiKeys({
+      API_KEYS: JSON.stringify([
+        { key: 'sk-a', name: 'team-a', tokens_per_day: 1000, models: [MODEL] },
+      ]),
+      RATE_LIMIT_RPM: '30',
+    });
+    assert.deepEqual(key, {
+      key: 'sk-a',
+      name: 'team-a',
+      requestsPerMinute: 30,
+      tokensPerDay: 1000,
+      models: [MODEL],
+    });
+  });
+
+  it('fails closed without revealing a malformed value', () => {
+    for (const value of [
+      '[{"key": sk-live-abcdef123456}]',
+      '[{"key": "sk-live-abcdef123456", "models": "all"}]',
+    ]) {
+      assert.throws(
+        () => loadApiKeys({ API_KEYS: value }),
+        (error: unknown) =>
+          rejectsWith(500, 'configuration_error')(error) &&
+          !(error as Error).message.includes('sk-live')
+      );
+    }
+    assert.equal(errors.length, 2);
+    assert.ok(errors.every((line) => !line.includes('sk-live')));
+  });
+});
+
+describe('authenticate', () => {
+  const env = { API_KEYS: 'sk-a' };
+
+  it('is skipped when no keys are configured', async () => {
+    assert.equal(await authenticate(request(), {}, store), null);
+  });
+
+  it('rejects missing and unknown keys', async () => {
+    await assert.rejects(
+      authenticate(request(), env, store),
+      rejectsWith(401, 'missing_api_key')
+    );
+    await assert.rejects(
+      authenticate(request('sk-b'), env, store),
+      rejectsWith(401, 'invalid_api_key')
+    );
+  });
+
+  it('enforces the per-minute request limit', async () => {
+    const limited = { API_KEYS: 'sk-a', RATE_LIMIT_RPM: '2' };
+    await authenticate(request('sk-a'), limited, store);
+    await authenticate(request('sk-a'), limited, store);
+    await assert.rejects(
+      authenticate(request('sk-a'), limited, store),
+      (error: unknown) =>
+        rejectsWith(429, 'rate_limit_exceeded')(error) &&
+        Number((error as ApiError).headers['Retry-After']) > 0
+    );
+  });
+});
+
+describe('authorizeModel', () => {
+  const env = {
+    API_KEYS: JSON.stringify([
+      { key: 'sk-a', models: [MODEL], tokens_per_day: 100 },
+    ]),
+  };
+
+  it('only allows the models listed for the key', async () => {
+    const auth = await authenticate(request('sk-a'), env, store);
+    await authorizeModel(auth, MODEL, store);
+    await assert.rejects(
+      authorizeModel(auth, '@tx/deepseek-ai/deepseek-r1-0528', store),
+      rejectsWith(404, 'model_not_found')
+    );
+  });
+
+  it('enforces the daily token budget', async () => {
+    const auth = await authenticate(request('sk-a'), env, store);
+    await chargeTokens(auth, 60, store);
+    await authorizeModel(auth, MODEL, store);
+    await chargeTokens(auth, 60, store);
+    await assert.rejects(
+      authorizeModel(auth, MODEL, store),
+      rejectsWith(429, 'rate_limit_exceeded')
+    );
+  });
+});
+
+describe('consumeRequest', () => {
+  it('starts a new window each minute', async () => {
+    const now = Date.now;
+    const start = Math.floor(now() / 60000) * 60000;
+    try {
+      Date.now = () => start + 1000;
+      assert.equal((await consumeRequest(store, 'k', 1)).allowed, true);
+      const limited = await consumeRequest(store, 'k', 1);
+      assert.equal(limited.allowed, false);
+      assert.equal(limited.retryAfter, 59);
+
+      Date.now = () => start + 61000;
+      assert.equal((await consumeRequest(store, 'k', 1)).allowed, true);
+    } finally {
+      Date.now = now;
+    }
+  });
+});
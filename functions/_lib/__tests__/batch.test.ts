@@ -0,0 +1,208 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import {
+  createBatch,
+  createBatchStore,
+  loadBatch,
+  parseBatchInput,
+  runBatch,
+  type BatchRequest,
+  type BatchStore,
+} from '../batch';
+import { createMemoryStore } from '../storage';
+
+const line = (custom_id: string, extra: object = {}) =>
+  JSON.stringify({
+    custom_id,
+    method: 'POST',
+    url: '/v1/chat/completions',
+    body: { messages: [{ role: 'user', content: custom_id }] },
+    ...extra,
+  });
+
+const requests = (count: number): BatchRequest[] =>
+  Array.from({ length: count }, (_, i) => ({
+    custom_id: `r${i}`,
+    body: { messages: [] },
+  }));
+
+const ok = async () => ({ status_code: 200, request_id: null, body: {} });
+
+function rejectsLine(text: string, pattern: RegExp) {
+  assert.throws(
+    () => parseBatchInput(text, 10),
+    (error: any) => error.status === 400 && pattern.test(error.message)
+  );
+}
+
+describe('parseBatchInput', () => {
+  it('reads one request per line and skips blank lines', () => {
+    const parsed = parseBatchInput(
+      `${line('a')}\n\n  ${line('b', { method: undefined, url: undefined })}\n`,
+      10
+    );
+    assert.deepEqual(
+      parsed.map((item) => item.custom_id),
+      ['a', 'b']
+    );
+    assert.deepEqual(parsed[0].body, {
+      messages: [{ role: 'user', content: 'a' }],
+    });
+  });
+
+  it('rejects empty files and files over the limit', () => {
+    rejectsLine(' \n', /no requests/);
+    assert.throws(
+      () => parseBatchInput(`${line('a')}\n${line('b')}`, 1),
+      (error: any) => error.code === 'too_many_requests'
+    );
+  });
+
+  it('reports the line of an invalid request', () => {
+    rejectsLine(`${line('a')}\n{oops`, /^Line 2: not valid JSON/);
+    rejectsLine(line(''), /^Line 1: custom_id/);
+    rejectsLine(`${line('a')}\n${line('a')}`, /^Line 2: duplicate custom_id a/);
+    rejectsLine(line('a', { method: 'GET' }), /method must be POST/);
+    rejectsLine(line('a', { url: '/v1/embeddings' }), /url must be/);
+    rejectsLine(line('a', { body: [] }), /body must be/);
+  });
+});
+
+describe('runBatch', () => {
+  let store: BatchStore;
+  const error = console.error;
+
+  beforeEach(() => {
+    store = createBatchStore(
+      createMemoryStore(`batch-test:${Math.random()}:`),
+      60
+    );
+    console.error = () => {};
+  });
+
+  afterEach(() => {
+    console.error = error;
+  });
+
+  async function start(count: number) {
+    const batch = createBatch(count, 'key-1', 60);
+    await store.create(batch, requests(count));
+    return batch;
+  }
+
+  it('runs every request with limited concurrency', async () => {
+    const batch = await start(6);
+    let running = 0;
+    let peak = 0;
+    const result = await runBatch(batch, {
+      store,
+      concurrency: 2,
+      async run() {
+        peak = Math.max(peak, ++running);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        running--;
+        return ok();
+      },
+    });
+
+    assert.equal(peak, 2);
+    assert.equal(result.status, 'completed');
+    assert.ok(result.completed_at);
+    assert.deepEqual(result.request_counts, {
+      total: 6,
+      completed: 6,
+      failed: 0,
+    });
+    const results = await store.getResults(batch.id, 6);
+    assert.deepEqual(
+      results.map((item) => item.custom_id),
+      ['r0', 'r1', 'r2', 'r3', 'r4', 'r5']
+    );
+    assert.deepEqual(await store.get(batch.id), result);
+  });
+
+  it('records failed requests and keeps going', async () => {
+    const batch = await start(3);
+    const result = await runBatch(batch, {
+      store,
+      concurrency: 1,
+      async run(_, index) {
+        if (index === 0) throw new Error('boom');
+        if (index === 1) {
+          return { status_code: 400, request_id: null, body: { error: {} } };
+        }
+        return ok();
+      },
+    });
+
+    assert.equal(result.status, 'completed');
+    assert.deepEqual(result.request_counts, {
+      total: 3,
+      completed: 1,
+      failed: 2,
+    });
+    const [thrown, rejected] = await store.getResults(batch.id, 3);
+    assert.deepEqual(thrown.error, { code: 'internal_error', message: 'boom' });
+    assert.equal(rejected.response?.status_code, 400);
+  });
+
+  it('stops starting requests once a cancel is requested', async () => {
+    const batch = await start(5);
+    const result = await runBatch(batch, {
+      store,
+      concurrency: 1,
+      async run(_, index) {
+        if (index === 1) await store.requestCancel(batch.id);
+        return ok();
+      },
+    });
+
+    assert.equal(result.status, 'cancelled');
+    assert.ok(result.cancelled_at);
+    assert.equal(result.request_counts.completed, 2);
+    assert.equal((await store.get(batch.id))?.status, 'cancelled');
+  });
+
+  it('marks the batch failed when the store breaks', async () => {
+    const batch = await start(1);
+    const broken: BatchStore = {
+      ...store,
+      async setResult() {
+        throw new Error('store offline');
+      },
+    };
+    const result = await runBatch(batch, {
+      store: broken,
+      concurrency: 1,
+      run: ok,
+    });
+    assert.equal(result.status, 'failed');
+    assert.deepEqual(result.errors, { message: 'store offline' });
+  });
+});
+
+describe('loadBatch', () => {
+  it('hides batches of other keys and reports pending cancels', async () => {
+    const store = createBatchStore(
+      createMemoryStore(`batch-test:${Math.random()}:`),
+      60
+    );
+    const batch = createBatch(1, 'key-1', 60);
+    await store.create(batch, requests(1));
+
+    await assert.rejects(
+      loadBatch(store, batch.id, { id: 'key-2' } as any),
+      (error: any) => error.status === 404
+    );
+    await assert.rejects(
+      loadBatch(store, batch.id, null),
+      (error: any) => error.status === 404
+    );
+
+    await store.requestCancel(batch.id);
+    const loaded = await loadBatch(store, batch.id, { id: 'key-1' } as any);
+    assert.equal(loaded.status, 'cancelling');
+    // The stored record is left to the runner
+    assert.equal((await store.get(batch.id))?.status, 'in_progress');
+  });
+});
@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createCitationFilter, validateCitations } from '../citations';
+import { answerChunks, readChunks, sseStream, summarize } from './helpers';
+
+// Feed `parts` through a filter for `count` results, as a stream would
+function filterParts(parts: string[], count: number): string[] {
+  const filter = createCitationFilter(count);
+  const out = parts.map((part) => filter.push(part));
+  out.push(filter.flush());
+  return out;
+}
+
+describe('createCitationFilter', () => {
+  it('holds a marker split across chunks until it is complete', () => {
+    const out = filterParts(['Rust is fast [cit', 'ation:', '2] and safe.'], 3);
+    assert.deepEqual(out, ['Rust is fast ', '', '[citation:2] and safe.', '']);
+  });
+
+  it('drops a split marker that points past the results', () => {
+    const out = filterParts(['See [citation:1', '2].'], 3);
+    assert.equal(out.join(''), 'See .');
+  });
+
+  it('drops indexes outside the result range', () => {
+    const out = filterParts(['A[citation:0] B[citation:4] C[citation:3]'], 3);
+    assert.equal(out.join(''), 'A B C[citation:3]');
+  });
+
+  it('splits grouped markers and keeps only the valid indexes', () => {
+    const out = filterParts(['Both [citation: 1, 5 ,2] agree.'], 2);
+    assert.equal(out.join(''), 'Both [citation:1][citation:2] agree.');
+  });
+
+  it('releases text that only looked like the start of a marker', () => {
+    assert.deepEqual(filterParts(['Array [ci', 'rcle]'], 3), [
+      'Array ',
+      '[circle]',
+      '',
+    ]);
+    assert.deepEqual(filterParts(['Ends with [citation'], 3), [
+      'Ends with ',
+      '[citation',
+    ]);
+  });
+
+  it('gives up on a fragment too long to be a marker', () => {
+    const long = `[citation:${'1,'.repeat(20)}`;
+    assert.deepEqual(filterParts([long], 3), [long, '']);
+  });
+});
+
+describe('validateCitations', () => {
+  it('filters markers split across stream chunks', async () => {
+    const stream = validateCitations(
+      sseStream(answerChunks('One [citation:', '1] two [citation:', '9].')),
+      2
+    );
+    const chunks = await readChunks(stream);
+    const { content, finishReasons } = summarize(chunks);
+    assert.equal(content, 'One [citation:1] two .');
+    assert.deepEqual(finishReasons, ['stop']);
+  });
+
+  it('flushes a held fragment into the finishing chunk', async () => {
+    const stream = validateCitations(
+      sseStream(answerChunks('Closing [citation')),
+      2
+    );
+    const chunks = await readChunks(stream);
+    const last = chunks[chunks.length - 1].choices[0];
+    assert.equal(last.finish_reason, 'stop');
+    assert.equal(last.delta.content, '[citation');
+  });
+
+  it('flushes a held fragment when the stream ends early', async () => {
+    const stream = validateCitations(
+      sseStream(answerChunks('Cut off [citation:1').slice(0, -1)),
+      2
+    );
+    assert.equal(
+      summarize(await readChunks(stream)).content,
+      'Cut off [citation:1'
+    );
+  });
+});
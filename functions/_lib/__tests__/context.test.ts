@@ -0,0 +1,154 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { ChatMessage } from '../chat';
+import {
+  fitMessages,
+  getContextBudget,
+  type ContextBudget,
+  type ContextStrategy,
+} from '../context';
+import { findModel } from '../models';
+
+const model = findModel('@tx/deepseek-ai/deepseek-v3-0324')!;
+
+// About 104 tokens per message with the role overhead
+const message = (role: 'user' | 'assistant', label: string): ChatMessage => ({
+  role,
+  content: `${label} ${'x'.repeat(396)}`,
+});
+
+// System prompt, four older turns and the latest question
+function conversation(): ChatMessage[] {
+  const messages: ChatMessage[] = [{ role: 'system', content: 'Be brief.' }];
+  for (let turn = 1; turn <= 4; turn++) {
+    messages.push(
+      message('user', `q${turn}`),
+      message('assistant', `a${turn}`)
+    );
+  }
+  messages.push(message('user', 'latest'));
+  return messages;
+}
+
+const budget = (
+  promptTokens: number,
+  strategy: ContextStrategy
+): ContextBudget => ({ promptTokens, searchTokens: 0, strategy });
+
+const labels = (messages: ChatMessage[]) =>
+  messages.map((item) => (item.content || '').split(' ')[0]);
+
+describe('fitMessages', () => {
+  it('keeps a conversation that fits as it is', () => {
+    const messages = conversation();
+    const fitted = fitMessages(messages, budget(2000, 'truncate'));
+    assert.equal(fitted.messages, messages);
+    assert.equal(fitted.dropped, 0);
+  });
+
+  it('drops the oldest whole turns with the truncate strategy', () => {
+    const fitted = fitMessages(conversation(), budget(600, 'truncate'));
+    assert.deepEqual(labels(fitted.messages), [
+      'Be',
+      'q3',
+      'a3',
+      'q4',
+      'a4',
+      'latest',
+    ]);
+    assert.equal(fitted.dropped, 4);
+    assert.equal(fitted.summarized, 0);
+    assert.ok(fitted.promptTokens <= 600);
+  });
+
+  it('condenses removed turns into a note with the summarize strategy', () => {
+    const fitted = fitMessages(conversation(), budget(600, 'summarize'));
+    const [system, note, ...rest] = fitted.messages;
+
+    assert.equal(system.content, 'Be brief.');
+    assert.equal(note.role, 'system');
+    assert.match(note.content!, /^Summary of earlier messages/);
+    // The newest removed message makes it into the note first
+    assert.match(note.content!, /- Assistant: a3 x+…$/);
+    assert.deepEqual(labels(rest), ['q4', 'a4', 'latest']);
+    assert.equal(fitted.summarized, 1);
+    assert.equal(fitted.dropped, 5);
+    assert.ok(fitted.promptTokens <= 600);
+  });
+
+  it('keeps every system message and the latest turn', () => {
+    const messages = conversation();
+    messages.splice(3, 0, { role: 'system', content: 'Answer in French.' });
+    const fitted = fitMessages(messages, budget(250, 'truncate'));
+    assert.deepEqual(
+      fitted.messages.map((item) => item.content?.split(' ')[0]),
+      ['Be', 'Answer', 'latest']
+    );
+  });
+
+  it('keeps tool results with the turn that called them', () => {
+    const messages: ChatMessage[] = [
+      message('user', 'q1'),
+      {
+        role: 'assistant',
+        content: '',
+        tool_calls: [
+          {
+            id: 'call_1',
+            type: 'function',
+            function: { name: 'lookup', arguments: '{}' },
+          },
+        ],
+      },
+      { role: 'tool', tool_call_id: 'call_1', content: 'result' },
+      message('assistant', 'a1'),
+      message('user', 'latest'),
+    ];
+    const fitted = fitMessages(messages, budget(200, 'truncate'));
+    assert.deepEqual(labels(fitted.messages), ['latest']);
+    assert.equal(fitted.dropped, 4);
+  });
+
+  it('counts reserved tokens against the budget', () => {
+    const fitted = fitMessages(conversation(), budget(600, 'truncate'), 250);
+    assert.deepEqual(labels(fitted.messages), ['Be', 'q4', 'a4', 'latest']);
+  });
+
+  it('rejects a latest turn that cannot fit', () => {
+    assert.throws(
+      () => fitMessages(conversation(), budget(100, 'summarize')),
+      (error: any) =>
+        error.status === 400 && error.code === 'context_length_exceeded'
+    );
+  });
+});
+
+describe('getContextBudget', () => {
+  it('reserves the completion and defaults to summarizing', () => {
+    const result = getContextBudget({}, model, 1000);
+    assert.equal(result.promptTokens, model.contextWindow - 1000);
+    assert.equal(result.searchTokens, 8000);
+    assert.equal(result.strategy, 'summarize');
+  });
+
+  it('caps search context at half of the prompt', () => {
+    const result = getContextBudget(
+      { SEARCH_CONTEXT_TOKENS: '50000' },
+      model,
+      model.contextWindow - 6000
+    );
+    assert.equal(result.promptTokens, 6000);
+    assert.equal(result.searchTokens, 3000);
+  });
+
+  it('reads the strategy and ignores unknown ones', () => {
+    assert.equal(
+      getContextBudget({ CONTEXT_STRATEGY: 'truncate' }, model).strategy,
+      'truncate'
+    );
+    assert.equal(
+      getContextBudget({ CONTEXT_STRATEGY: 'forget' }, model).strategy,
+      'summarize'
+    );
+  });
+});
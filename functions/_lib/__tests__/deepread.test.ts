@@ -0,0 +1,182 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, it } from 'node:test';
+import {
+  deepReadResults,
+  fetchPageText,
+  type DeepReadOptions,
+  type Fetcher,
+} from '../search/deepread';
+import { extractReadableText } from '../search/extract';
+
+const fixture = (name: string) =>
+  readFileSync(join(__dirname, 'fixtures', name));
+
+const options: DeepReadOptions = {
+  topN: 2,
+  timeoutMs: 1000,
+  maxBytes: 512 * 1024,
+  tokensPerResult: 1500,
+};
+
+// Serve local fixtures by URL path, anything else is a 404
+function fixtureFetcher(
+  types: Record<string, string> = {}
+): Fetcher & { calls: string[] } {
+  const calls: string[] = [];
+  const fetcher = async (url: string) => {
+    calls.push(url);
+    const name = new URL(url).pathname.slice(1);
+    try {
+      return new Response(fixture(name), {
+        headers: {
+          'Content-Type': types[name] || 'text/html; charset=utf-8',
+        },
+      });
+    } catch {
+      return new Response('Not found', { status: 404 });
+    }
+  };
+  return Object.assign(fetcher, { calls });
+}
+
+describe('extractReadableText', () => {
+  it('keeps the article body and drops page chrome', () => {
+    const text = extractReadableText(fixture('article.html').toString());
+    assert.equal(
+      text,
+      [
+        'Edge functions explained',
+        'Edge functions run your code in data centers close to the people using it.',
+        'They start in milliseconds, so a request never waits for a cold server & its runtime.',
+        'Prices start at $0 per month — see the pricing page for details.',
+      ].join('\n')
+    );
+  });
+
+  it('falls back to the body without an article element', () => {
+    const text = extractReadableText(fixture('no-article.html').toString());
+    assert.equal(
+      text,
+      [
+        'Release notes',
+        'Version 2.0 adds streaming responses and a new cache layer for search.',
+        'Upgrading needs no changes to existing deployments.',
+      ].join('\n')
+    );
+  });
+
+  it('keeps short headings and CJK lines but drops link lists', () => {
+    const text = extractReadableText(`<main>
+      <h2>安装</h2>
+      <p>运行 npm install 即可。</p>
+      <p>边缘函数很快</p>
+      <ul><li><a href="/a">Getting started</a></li><li><a href="/b">API</a></li></ul>
+      <p>See <a href="/docs">the docs</a> for every option</p>
+      <div><a href="/prev">上一篇</a></div>
+      <p>分享</p>
+    </main>`);
+    assert.equal(
+      text,
+      [
+        '安装',
+        '运行 npm install 即可。',
+        '边缘函数很快',
+        'See the docs for every option',
+      ].join('\n')
+    );
+  });
+});
+
+describe('fetchPageText', () => {
+  it('reads an HTML page', async () => {
+    const text = await fetchPageText(
+      'https://example.com/article.html',
+      options,
+      fixtureFetcher()
+    );
+    assert.match(
+      text!,
+      /^Edge functions explained\nEdge functions run your code/
+    );
+    assert.doesNotMatch(text!, /analytics|Subscribe|rights reserved/);
+  });
+
+  it('decodes the charset named by the response', async () => {
+    const text = await fetchPageText(
+      'https://example.com/gbk.html',
+      options,
+      fixtureFetcher({ 'gbk.html': 'text/html; charset=gbk' })
+    );
+    assert.match(text!, /GBK 编码的中文网页正文/);
+  });
+
+  it('skips pages that are missing or not text', async () => {
+    const fetcher = fixtureFetcher({ 'article.html': 'application/pdf' });
+    assert.equal(
+      await fetchPageText('https://example.com/article.html', options, fetcher),
+      null
+    );
+    assert.equal(
+      await fetchPageText('https://example.com/missing.html', options, fetcher),
+      null
+    );
+  });
+
+  it('does not fetch non-http URLs', async () => {
+    const fetcher = fixtureFetcher();
+    assert.equal(
+      await fetchPageText('file:///etc/passwd', options, fetcher),
+      null
+    );
+    assert.deepEqual(fetcher.calls, []);
+  });
+
+  it('caps the bytes read and the tokens kept', async () => {
+    const fetcher = fixtureFetcher();
+    const url = 'https://example.com/article.html';
+
+    const truncated = await fetchPageText(
+      url,
+      { ...options, tokensPerResult: 5 },
+      fetcher
+    );
+    assert.ok(truncated!.length < 40, truncated!);
+
+    // The article starts past the first 400 bytes
+    const capped = await fetchPageText(
+      url,
+      { ...options, maxBytes: 400 },
+      fetcher
+    );
+    assert.doesNotMatch(capped || '', /Edge functions run/);
+  });
+});
+
+describe('deepReadResults', () => {
+  it('attaches page text to the top results only', async () => {
+    const fetcher = fixtureFetcher();
+    const results = await deepReadResults(
+      [
+        { title: 'A', url: 'https://example.com/article.html', content: 'a' },
+        { title: 'B', url: 'https://example.com/missing.html', content: 'b' },
+        {
+          title: 'C',
+          url: 'https://example.com/no-article.html',
+          content: 'c',
+        },
+      ],
+      options,
+      fetcher
+    );
+    assert.equal(fetcher.calls.length, 2);
+    assert.match(
+      results[0].pageContent!,
+      /^Edge functions explained\nEdge functions run/
+    );
+    assert.equal(results[1].pageContent, undefined);
+    assert.equal(results[2].pageContent, undefined);
+    assert.equal(results[1].content, 'b');
+  });
+});
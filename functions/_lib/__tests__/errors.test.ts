@@ -0,0 +1,37 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { badRequest, toErrorResponse } from '../errors';
+
+let logged: unknown[][] = [];
+const error = console.error;
+beforeEach(() => {
+  logged = [];
+  console.error = (...args: unknown[]) => {
+    logged.push(args);
+  };
+});
+afterEach(() => {
+  console.error = error;
+});
+
+describe('toErrorResponse', () => {
+  it('keeps the message of API errors', async () => {
+    const response = toErrorResponse(badRequest('Bad input', 'messages'));
+    assert.equal(response.status, 400);
+    assert.equal((await response.json()).error.message, 'Bad input');
+    assert.equal(logged.length, 0);
+  });
+
+  it('hides unknown errors from the client and logs them', async () => {
+    const failure = new Error('Invalid EXTRA_MODELS at 0.key: sk-123');
+    const response = toErrorResponse(failure);
+    assert.equal(response.status, 500);
+    assert.deepEqual((await response.json()).error, {
+      message: 'Internal server error',
+      type: 'server_error',
+      param: null,
+      code: 'internal_error',
+    });
+    assert.equal(logged[0][1], failure);
+  });
+});
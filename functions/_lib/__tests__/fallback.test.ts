@@ -0,0 +1,255 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { openWithFallback, type FallbackOptions } from '../fallback';
+import { findModel, type ModelConfig } from '../models';
+import { encodeSSE } from '../sse';
+import { createMemoryStore } from '../storage';
+import {
+  answerChunks,
+  deltaChunk,
+  installAI,
+  readChunks,
+  sseStream,
+  summarize,
+} from './helpers';
+
+const PRIMARY = '@tx/deepseek-ai/deepseek-v3-0324';
+const FALLBACK = '@tx/deepseek-ai/deepseek-v3.2';
+const params = { model: PRIMARY, messages: [{ role: 'user', content: 'Hi' }] };
+
+const realNow = Date.now;
+const realRandom = Math.random;
+const realSetTimeout = globalThis.setTimeout;
+const realError = console.error;
+
+let calls: string[];
+let delays: number[];
+let restoreAI: () => void;
+
+function options(overrides: Partial<FallbackOptions> = {}): FallbackOptions {
+  return {
+    retries: 2,
+    baseDelayMs: 100,
+    maxDelayMs: 250,
+    breaker: {
+      store: createMemoryStore(`breaker-test:${realRandom()}:`),
+      threshold: 2,
+      cooldownSeconds: 30,
+    },
+    ...overrides,
+  };
+}
+
+function upstreamError(status: number): Error {
+  return Object.assign(new Error(`HTTP ${status}`), { status });
+}
+
+// Serve each model from its own script of outcomes, the last one repeats
+function serve(script: Record<string, (() => ReadableStream<Uint8Array>)[]>) {
+  const seen: Record<string, number> = {};
+  restoreAI();
+  restoreAI = installAI(async ({ model }) => {
+    calls.push(model);
+    const steps = script[model];
+    const attempt = (seen[model] = (seen[model] ?? -1) + 1);
+    return steps[Math.min(attempt, steps.length - 1)]();
+  });
+}
+
+const answer = (text: string) => () => sseStream(answerChunks(text));
+const fail = (status: number) => () => {
+  throw upstreamError(status);
+};
+
+async function content(model: ModelConfig, opts: FallbackOptions) {
+  const result = await openWithFallback(params, model, opts);
+  return {
+    model: result.model,
+    ...summarize(await readChunks(result.stream)),
+  };
+}
+
+describe('openWithFallback', () => {
+  const primary = findModel(PRIMARY)!;
+
+  beforeEach(() => {
+    calls = [];
+    delays = [];
+    restoreAI = () => {};
+    console.error = () => {};
+    // Skip the backoff sleeps but keep their lengths
+    (globalThis as any).setTimeout = (fn: () => void, ms: number) => {
+      delays.push(ms);
+      fn();
+      return 0;
+    };
+  });
+
+  afterEach(() => {
+    restoreAI();
+    Date.now = realNow;
+    console.error = realError;
+    Math.random = realRandom;
+    globalThis.setTimeout = realSetTimeout;
+  });
+
+  it('retries a transient failure before the first token', async () => {
+    serve({ [PRIMARY]: [fail(503), answer('Hello')] });
+    const result = await content(primary, options());
+    assert.equal(result.model, PRIMARY);
+    assert.equal(result.content, 'Hello');
+    assert.deepEqual(calls, [PRIMARY, PRIMARY]);
+  });
+
+  it('retries a stream that fails before its first chunk', async () => {
+    const broken = () =>
+      new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.error(new Error('connection reset'));
+        },
+      });
+    serve({ [PRIMARY]: [broken, answer('Hello')] });
+    const result = await content(primary, options());
+    assert.equal(result.content, 'Hello');
+    assert.deepEqual(calls, [PRIMARY, PRIMARY]);
+  });
+
+  it('does not retry once tokens have streamed', async () => {
+    const partial = () =>
+      new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(encodeSSE(deltaChunk({ content: 'Hel' })));
+        },
+        pull(controller) {
+          controller.error(new Error('connection reset'));
+        },
+      });
+    serve({ [PRIMARY]: [partial, answer('Hello')] });
+    const result = await openWithFallback(params, primary, options());
+    await assert.rejects(readChunks(result.stream), /connection reset/);
+    assert.deepEqual(calls, [PRIMARY]);
+  });
+
+  it('caps the exponential backoff at the maximum delay', async () => {
+    Math.random = () => 0.999;
+    serve({ [PRIMARY]: [fail(503)], [FALLBACK]: [fail(503)] });
+    await assert.rejects(
+      openWithFallback(params, primary, options({ retries: 3 })),
+      (error: any) => error.status === 503 && error.code === 'model_unavailable'
+    );
+    // 100, 200, then 400 capped to 250, for each model in the chain
+    assert.deepEqual(delays, [99, 199, 249, 99, 199, 249]);
+    assert.equal(calls.length, 8);
+  });
+
+  it('does not retry a rejected request', async () => {
+    serve({ [PRIMARY]: [fail(400)], [FALLBACK]: [fail(400)] });
+    await assert.rejects(
+      openWithFallback(params, primary, options()),
+      (error: any) => error.status === 400
+    );
+    assert.deepEqual(calls, [PRIMARY, FALLBACK]);
+    assert.deepEqual(delays, []);
+  });
+
+  it('falls back to the next model when retries run out', async () => {
+    serve({ [PRIMARY]: [fail(503)], [FALLBACK]: [answer('Hello')] });
+    const result = await content(primary, options());
+    assert.equal(result.model, FALLBACK);
+    assert.equal(result.content, 'Hello');
+    assert.deepEqual(calls, [PRIMARY, PRIMARY, PRIMARY, FALLBACK]);
+  });
+});
+
+describe('circuit breaker', () => {
+  const primary = findModel(PRIMARY)!;
+
+  beforeEach(() => {
+    calls = [];
+    restoreAI = () => {};
+    console.error = () => {};
+  });
+
+  afterEach(() => {
+    restoreAI();
+    Date.now = realNow;
+    console.error = realError;
+  });
+
+  it('skips a model while its circuit is open', async () => {
+    const opts = options({ retries: 0 });
+    serve({ [PRIMARY]: [fail(503)], [FALLBACK]: [answer('Hello')] });
+
+    await content(primary, opts);
+    await content(primary, opts);
+    calls = [];
+    const result = await content(primary, opts);
+
+    assert.equal(result.model, FALLBACK);
+    assert.deepEqual(calls, [FALLBACK]);
+  });
+
+  it('lets one request through after the cooldown', async () => {
+    const opts = options({ retries: 0 });
+    serve({
+      [PRIMARY]: [fail(503), fail(503), answer('Back')],
+      [FALLBACK]: [answer('Hello')],
+    });
+
+    await content(primary, opts);
+    await content(primary, opts);
+
+    const start = realNow();
+    Date.now = () => start + 31_000;
+    calls = [];
+    const result = await content(primary, opts);
+    assert.equal(result.model, PRIMARY);
+    assert.deepEqual(calls, [PRIMARY]);
+
+    // The success closed the circuit again
+    Date.now = realNow;
+    console.error = realError;
+    calls = [];
+    await content(primary, opts);
+    assert.deepEqual(calls, [PRIMARY]);
+  });
+
+  it('reopens the circuit when the trial request fails', async () => {
+    const opts = options({ retries: 0 });
+    serve({ [PRIMARY]: [fail(503)], [FALLBACK]: [answer('Hello')] });
+
+    await content(primary, opts);
+    await content(primary, opts);
+
+    const start = realNow();
+    Date.now = () => start + 31_000;
+    calls = [];
+    await content(primary, opts);
+    assert.deepEqual(calls, [PRIMARY, FALLBACK]);
+
+    calls = [];
+    await content(primary, opts);
+    assert.deepEqual(calls, [FALLBACK]);
+  });
+
+  it('does not count rejected requests as failures', async () => {
+    const opts = options({ retries: 0 });
+    serve({ [PRIMARY]: [fail(400)], [FALLBACK]: [fail(400)] });
+
+    for (let i = 0; i < 3; i++) {
+      await assert.rejects(openWithFallback(params, primary, opts));
+    }
+    assert.equal(calls.filter((model) => model === PRIMARY).length, 3);
+  });
+
+  it('still tries the primary model when every circuit is open', async () => {
+    const opts = options({ retries: 0 });
+    serve({ [PRIMARY]: [fail(503)], [FALLBACK]: [fail(503)] });
+
+    await assert.rejects(openWithFallback(params, primary, opts));
+    await assert.rejects(openWithFallback(params, primary, opts));
+    calls = [];
+    await assert.rejects(openWithFallback(params, primary, opts));
+    assert.deepEqual(calls, [PRIMARY]);
+  });
+});
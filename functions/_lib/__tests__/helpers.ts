@@ -0,0 +1,83 @@
+import { encodeSSE, readSSE } from '../sse';
+
+/**
+ * SSE stream of the given chunks or raw payloads, ending with [DONE]
+ */
+export function sseStream(
+  chunks: (object | string)[],
+  done = true
+): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encodeSSE(chunk));
+      if (done) controller.enqueue(encodeSSE('[DONE]'));
+      controller.close();
+    },
+  });
+}
+
+/**
+ * One chat.completion.chunk carrying `delta`
+ */
+export function deltaChunk(
+  delta: object,
+  finishReason: string | null = null
+): object {
+  return {
+    id: 'chatcmpl-test',
+    object: 'chat.completion.chunk',
+    created: 0,
+    model: 'test',
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  };
+}
+
+/**
+ * Chunks streaming `texts` as content, then a finishing chunk
+ */
+export function answerChunks(...texts: string[]): object[] {
+  return [
+    ...texts.map((content) => deltaChunk({ content })),
+    deltaChunk({}, 'stop'),
+  ];
+}
+
+/**
+ * Read every JSON chunk of an SSE stream
+ */
+export async function readChunks(
+  stream: ReadableStream<Uint8Array>
+): Promise<any[]> {
+  const chunks: any[] = [];
+  for await (const chunk of readSSE(stream)) chunks.push(chunk);
+  return chunks;
+}
+
+/**
+ * Joined content of a chunk list and the finish reasons in it
+ */
+export function summarize(chunks: any[]) {
+  return {
+    content: chunks
+      .map((chunk) => chunk.choices?.[0]?.delta?.content || '')
+      .join(''),
+    finishReasons: chunks
+      .map((chunk) => chunk.choices?.[0]?.finish_reason)
+      .filter(Boolean),
+  };
+}
+
+/**
+ * Stand in for the EdgeOne `AI` binding until the returned function is
+ * called. `handler` gets the request params and returns the model stream.
+ */
+export function installAI(
+  handler: (params: any) => Promise<ReadableStream<Uint8Array>>
+): () => void {
+  const global = globalThis as any;
+  const previous = global.AI;
+  global.AI = { chatCompletions: handler };
+  return () => {
+    global.AI = previous;
+  };
+}
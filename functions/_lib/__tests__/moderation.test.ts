@@ -0,0 +1,179 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import type { ChatMessage } from '../chat';
+import {
+  getModerationConfig,
+  moderateMessages,
+  moderateStream,
+} from '../moderation';
+import {
+  answerChunks,
+  deltaChunk,
+  installAI,
+  readChunks,
+  sseStream,
+  summarize,
+} from './helpers';
+
+const CLASSIFIER_MODEL = '@tx/deepseek-ai/deepseek-v3-0324';
+const context = { requestId: 'test' };
+
+async function moderate(env: any, chunks: object[]) {
+  const config = getModerationConfig(env)!;
+  return summarize(
+    await readChunks(moderateStream(sseStream(chunks), config, context))
+  );
+}
+
+// Decision logs are not part of what is checked here
+const log = console.log;
+beforeEach(() => {
+  console.log = () => {};
+});
+afterEach(() => {
+  console.log = log;
+});
+
+describe('getModerationConfig', () => {
+  it('is off when nothing is configured', () => {
+    assert.equal(getModerationConfig({}), null);
+  });
+
+  it('rejects malformed settings', () => {
+    assert.throws(
+      () => getModerationConfig({ MODERATION_BLOCK_PATTERNS: '[oops' }),
+      /must be valid JSON/
+    );
+    assert.throws(
+      () => getModerationConfig({ MODERATION_BLOCK_PATTERNS: '["("]' }),
+      /Invalid MODERATION_BLOCK_PATTERNS entry/
+    );
+    assert.throws(
+      () => getModerationConfig({ MODERATION_PII: 'ssn' }),
+      /Unknown MODERATION_PII detector/
+    );
+  });
+});
+
+describe('moderateStream', () => {
+  it('stops at a blocklisted keyword split across chunks', async () => {
+    const result = await moderate(
+      { MODERATION_BLOCKLIST: 'launch codes' },
+      answerChunks('Sure, the laun', 'ch codes are 1234.')
+    );
+    assert.equal(result.content, 'Sure, the ');
+    assert.deepEqual(result.finishReasons, ['content_filter']);
+  });
+
+  it('stops at a MODERATION_BLOCK_PATTERNS match', async () => {
+    const result = await moderate(
+      { MODERATION_BLOCK_PATTERNS: JSON.stringify(['pass(word)?\\s*[:=]']) },
+      answerChunks('Log in with PASSWORD = hunter2')
+    );
+    assert.equal(result.content, 'Log in with ');
+    assert.deepEqual(result.finishReasons, ['content_filter']);
+  });
+
+  it('redacts PII cut across chunks', async () => {
+    const result = await moderate(
+      { MODERATION_PII: 'email,phone' },
+      answerChunks(
+        'Mail bob.smith@exam',
+        'ple.com or call +1 415 555 ',
+        '0100.'
+      )
+    );
+    assert.equal(
+      result.content,
+      'Mail [REDACTED_EMAIL] or call [REDACTED_PHONE].'
+    );
+    assert.deepEqual(result.finishReasons, ['stop']);
+  });
+
+  it('checks text that arrives after the finishing chunk', async () => {
+    const chunks = await readChunks(
+      moderateStream(
+        sseStream([
+          deltaChunk({ content: 'All fine. ' }),
+          deltaChunk({}, 'stop'),
+          deltaChunk({ content: 'Then the launch codes.' }),
+          { id: 'chatcmpl-test', choices: [], usage: { total_tokens: 9 } },
+        ]),
+        getModerationConfig({ MODERATION_BLOCKLIST: 'launch codes' })!,
+        context
+      )
+    );
+    const result = summarize(chunks);
+    assert.equal(result.content, 'All fine. Then the ');
+    assert.deepEqual(result.finishReasons, ['content_filter']);
+  });
+
+  it('sends the finishing chunk last, before the usage chunk', async () => {
+    const chunks = await readChunks(
+      moderateStream(
+        sseStream([
+          deltaChunk({ content: 'Hello' }),
+          deltaChunk({}, 'stop'),
+          deltaChunk({ content: ' world' }),
+          { id: 'chatcmpl-test', choices: [], usage: { total_tokens: 9 } },
+        ]),
+        getModerationConfig({ MODERATION_BLOCKLIST: 'secret' })!,
+        context
+      )
+    );
+    assert.equal(summarize(chunks).content, 'Hello world');
+    assert.equal(chunks[chunks.length - 2].choices[0].finish_reason, 'stop');
+    assert.ok(chunks[chunks.length - 1].usage);
+  });
+
+  describe('with a classifier', () => {
+    let verdict = 'ALLOW';
+    let classified: string[] = [];
+    let restore: () => void;
+
+    beforeEach(() => {
+      verdict = 'ALLOW';
+      classified = [];
+      restore = installAI(async (params) => {
+        classified.push(params.messages[1].content);
+        return sseStream(answerChunks(verdict));
+      });
+    });
+    afterEach(() => restore());
+
+    it('classifies the whole answer, including late text', async () => {
+      verdict = 'BLOCK';
+      const result = await moderate({ MODERATION_MODEL: CLASSIFIER_MODEL }, [
+        deltaChunk({ content: 'Step one. ' }),
+        deltaChunk({}, 'stop'),
+        deltaChunk({ content: 'Step two.' }),
+      ]);
+      assert.deepEqual(classified, ['Step one. Step two.']);
+      assert.deepEqual(result.finishReasons, ['content_filter']);
+      // Text the filter still held back is never sent
+      assert.equal(result.content, '');
+    });
+
+    it('lets an allowed answer through unchanged', async () => {
+      const result = await moderate(
+        { MODERATION_MODEL: CLASSIFIER_MODEL },
+        answerChunks('A recipe for ', 'bread.')
+      );
+      assert.equal(result.content, 'A recipe for bread.');
+      assert.deepEqual(result.finishReasons, ['stop']);
+    });
+
+    it('blocks request messages the classifier flags', async () => {
+      verdict = 'BLOCK';
+      const messages: ChatMessage[] = [{ role: 'user', content: 'bad idea' }];
+      await assert.rejects(
+        moderateMessages(
+          messages,
+          getModerationConfig({ MODERATION_MODEL: CLASSIFIER_MODEL })!,
+          context
+        ),
+        (error: any) => error.code === 'content_filter'
+      );
+    });
+  });
+});
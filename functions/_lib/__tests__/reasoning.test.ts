@@ -0,0 +1,189 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createThinkParser, normalizeReasoning } from '../reasoning';
+import { encodeSSE, readSSE } from '../sse';
+
+type Parser = ReturnType<typeof createThinkParser>;
+
+// Feed chunks through the parser and join what comes out
+function parse(parser: Parser, chunks: string[]) {
+  const result = { content: '', reasoning: '' };
+  for (const part of [
+    ...chunks.map((chunk) => parser.push(chunk)),
+    parser.flush(),
+  ]) {
+    result.content += part.content;
+    result.reasoning += part.reasoning;
+  }
+  return result;
+}
+
+// Chunks for each delta, ending with a `finish_reason: 'stop'` chunk when
+// `finish` is set
+function sseStream(
+  deltas: object[],
+  finish = false
+): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      for (const delta of deltas) {
+        controller.enqueue(
+          encodeSSE({
+            id: 'c',
+            choices: [{ index: 0, delta, finish_reason: null }],
+          })
+        );
+      }
+      if (finish) {
+        controller.enqueue(
+          encodeSSE({
+            id: 'c',
+            choices: [{ index: 0, delta: {}, finish_reason: 'stop' }],
+          })
+        );
+      }
+      controller.enqueue(encodeSSE('[DONE]'));
+      controller.close();
+    },
+  });
+}
+
+async function collect(stream: ReadableStream<Uint8Array>) {
+  const result = { content: '', reasoning: '' };
+  for await (const chunk of readSSE(stream)) {
+    const delta = chunk.choices?.[0]?.delta || {};
+    result.content += delta.content || '';
+    result.reasoning += delta.reasoning_content || '';
+  }
+  return result;
+}
+
+describe('createThinkParser', () => {
+  it('splits tags cut across chunks', () => {
+    assert.deepEqual(
+      parse(createThinkParser(), [
+        '<th',
+        'ink>Let me ',
+        'check.</thi',
+        'nk>\n\n42',
+      ]),
+      { content: '42', reasoning: 'Let me check.' }
+    );
+  });
+
+  it('keeps text without tags as content', () => {
+    assert.deepEqual(parse(createThinkParser(), ['Just ', 'an answer.']), {
+      content: 'Just an answer.',
+      reasoning: '',
+    });
+  });
+
+  it('reads text before a closing tag without an opening one as reasoning', () => {
+    assert.deepEqual(
+      parse(createThinkParser({ implicitOpen: true }), [
+        'The user asks ',
+        'for 6 * 7.</th',
+        'ink>\n\nIt is 42.',
+      ]),
+      { content: 'It is 42.', reasoning: 'The user asks for 6 * 7.' }
+    );
+  });
+
+  it('still handles an opening tag when it is implied', () => {
+    assert.deepEqual(
+      parse(createThinkParser({ implicitOpen: true }), [
+        '<think>Hmm.</think>Done.',
+      ]),
+      { content: 'Done.', reasoning: 'Hmm.' }
+    );
+    assert.deepEqual(
+      parse(createThinkParser({ implicitOpen: true }), ['No tags at all.']),
+      { content: 'No tags at all.', reasoning: '' }
+    );
+  });
+
+  it('streams reasoning without an opening tag before the closing one', () => {
+    const parser = createThinkParser({ implicitOpen: true });
+    const thought = 'The user wants a summary of the article. '.repeat(3);
+
+    // Past the held back window, reasoning comes out as it arrives
+    assert.deepEqual(parser.push(thought), {
+      content: '',
+      reasoning: thought,
+    });
+    assert.deepEqual(parser.push('Done.</think>\n\nHere it is.'), {
+      content: 'Here it is.',
+      reasoning: 'Done.',
+    });
+  });
+});
+
+describe('normalizeReasoning', () => {
+  it('moves reasoning before a lone closing tag out of the content', async () => {
+    const stream = normalizeReasoning(
+      sseStream([
+        { content: 'Adding up' },
+        { content: '.</think>' },
+        { content: 'Two.' },
+      ]),
+      { implicitOpen: true }
+    );
+    assert.deepEqual(await collect(stream), {
+      content: 'Two.',
+      reasoning: 'Adding up.',
+    });
+  });
+
+  it('sends an untagged answer before the finishing chunk', async () => {
+    const stream = normalizeReasoning(
+      sseStream(
+        [{ role: 'assistant', content: '' }, { content: 'Hello world' }],
+        true
+      ),
+      { implicitOpen: true }
+    );
+    const deltas: any[] = [];
+    for await (const chunk of readSSE(stream)) {
+      deltas.push({
+        ...chunk.choices[0].delta,
+        finish_reason: chunk.choices[0].finish_reason,
+      });
+    }
+    const finished = deltas.findIndex((delta) => delta.finish_reason);
+    assert.equal(finished, deltas.length - 1);
+    assert.equal(
+      deltas.map((delta) => delta.content || '').join(''),
+      'Hello world'
+    );
+    assert.equal(deltas[finished].content, 'Hello world');
+  });
+
+  it('streams reasoning that lacks an opening tag as it arrives', async () => {
+    const thought = 'Let me work through the question step by step. '.repeat(3);
+    const stream = normalizeReasoning(
+      sseStream([{ content: thought }, { content: '</think>Answer.' }], true),
+      { implicitOpen: true }
+    );
+    const reader = stream.getReader();
+    const first = new TextDecoder().decode((await reader.read()).value);
+    await reader.cancel();
+    assert.match(first, /"reasoning_content":"Let me work/);
+    assert.doesNotMatch(first, /"content"/);
+  });
+
+  it('does not hold back content when the backend splits reasoning itself', async () => {
+    const stream = normalizeReasoning(
+      sseStream([{ reasoning_content: 'Adding up.' }, { content: 'Two.' }]),
+      { implicitOpen: true }
+    );
+    const reader = stream.getReader();
+    const chunks: string[] = [];
+    const decoder = new TextDecoder();
+    // The answer arrives before the stream ends, not at flush
+    for (let i = 0; i < 2; i++) {
+      chunks.push(decoder.decode((await reader.read()).value));
+    }
+    await reader.cancel();
+    assert.match(chunks[1], /"content":"Two\."/);
+  });
+});
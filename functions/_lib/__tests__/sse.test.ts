@@ -0,0 +1,127 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { completeText } from '../ai';
+import { toAnthropicStream } from '../anthropic';
+import { meterStream } from '../completion';
+import { getModerationConfig, moderateStream } from '../moderation';
+import { normalizeReasoning } from '../reasoning';
+import { encodeSSE, readSSE } from '../sse';
+import { installAI } from './helpers';
+
+// A model stream that sends one chunk and then waits, like a backend that
+// is still thinking. `cancelled` resolves when the source is cancelled.
+function stalledStream() {
+  let onCancel: (reason: unknown) => void;
+  const cancelled = new Promise<unknown>((resolve) => (onCancel = resolve));
+  let sent = false;
+  const stream = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (sent) return new Promise<void>(() => {});
+      sent = true;
+      controller.enqueue(
+        encodeSSE({
+          id: 'c',
+          model: 'm',
+          choices: [
+            { index: 0, delta: { content: 'Hi' }, finish_reason: null },
+          ],
+        })
+      );
+    },
+    cancel(reason) {
+      onCancel(reason);
+    },
+  });
+  return { stream, cancelled };
+}
+
+const withTimeout = <T>(promise: Promise<T>) =>
+  Promise.race([
+    promise,
+    new Promise<never>((_, reject) =>
+      setTimeout(() => reject(new Error('Source was not cancelled')), 1000)
+    ),
+  ]);
+
+const wrappers: Record<
+  string,
+  (stream: ReadableStream<Uint8Array>) => ReadableStream<Uint8Array>
+> = {
+  meterStream: (stream) =>
+    meterStream(stream, { model: 'm', promptMessages: [] }),
+  normalizeReasoning: (stream) => normalizeReasoning(stream),
+  moderateStream: (stream) =>
+    moderateStream(
+      stream,
+      getModerationConfig({ MODERATION_BLOCKLIST: 'secret' })!,
+      { requestId: 'r' }
+    ),
+  toAnthropicStream: (stream) => toAnthropicStream(stream, 'm'),
+};
+
+describe('readSSE', () => {
+  it('cancels the source when the reader stops early', async () => {
+    const { stream, cancelled } = stalledStream();
+    const chunks = readSSE(stream);
+    await chunks.next();
+    await chunks.return(undefined);
+    await withTimeout(cancelled);
+  });
+
+  it('cancels the source while a read is waiting', async () => {
+    const { stream, cancelled } = stalledStream();
+    const abort = new AbortController();
+    const chunks = readSSE(stream, abort.signal);
+    await chunks.next();
+    const waiting = chunks.next();
+    abort.abort('client gone');
+    assert.equal(await withTimeout(cancelled), 'client gone');
+    assert.equal((await waiting).done, true);
+  });
+});
+
+describe('stream wrappers', () => {
+  for (const [name, wrap] of Object.entries(wrappers)) {
+    it(`${name} passes cancel through to the source`, async () => {
+      const { stream, cancelled } = stalledStream();
+      const reader = wrap(stream).getReader();
+      // Some wrappers hold the first text back, so the read may not finish
+      reader.read().catch(() => {});
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      // Cancelled while the wrapper waits on the stalled source
+      await reader.cancel('client gone');
+      assert.equal(await withTimeout(cancelled), 'client gone');
+    });
+  }
+});
+
+describe('completeText', () => {
+  const params = {
+    model: '@tx/deepseek-ai/deepseek-v3-0324',
+    messages: [{ role: 'user', content: 'Hi' }],
+  };
+
+  it('cancels the model stream when it times out', async () => {
+    const { stream, cancelled } = stalledStream();
+    const restore = installAI(async () => stream);
+    try {
+      await assert.rejects(completeText(params, 20), /timed out after 20ms/);
+      assert.match(String(await withTimeout(cancelled)), /timed out/);
+    } finally {
+      restore();
+    }
+  });
+
+  it('cancels a stream that only opens after the timeout', async () => {
+    const { stream, cancelled } = stalledStream();
+    const restore = installAI(
+      () => new Promise((resolve) => setTimeout(() => resolve(stream), 40))
+    );
+    try {
+      await assert.rejects(completeText(params, 20), /timed out/);
+      await withTimeout(cancelled);
+    } finally {
+      restore();
+    }
+  });
+});
@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import {
+  MEMORY_STORE_MAX_ENTRIES,
+  createMemoryArea,
+  createKVStore,
+  createMemoryStore,
+  resetMemoryStore,
+} from '../storage';
+
+const realNow = Date.now;
+
+// Fill the store with live entries under their own prefix
+async function fill(prefix: string, count: number) {
+  const store = createMemoryStore(prefix);
+  for (let i = 0; i < count; i++) await store.set(`k${i}`, i);
+  return store;
+}
+
+describe('createMemoryStore', () => {
+  beforeEach(() => {
+    resetMemoryStore();
+  });
+
+  afterEach(() => {
+    Date.now = realNow;
+  });
+
+  it('expires entries after their ttl', async () => {
+    const store = createMemoryStore('ttl:');
+    await store.set('a', { n: 1 }, 1);
+    assert.deepEqual(await store.get('a'), { n: 1 });
+
+    const start = realNow();
+    Date.now = () => start + 2000;
+    assert.equal(await store.get('a'), null);
+  });
+
+  it('evicts the least recently used entry when full', async () => {
+    const store = await fill('lru:', MEMORY_STORE_MAX_ENTRIES);
+    // Reading k0 makes k1 the least recently used
+    assert.equal(await store.get('k0'), 0);
+    await store.set('extra', true);
+
+    assert.equal(await store.get('k0'), 0);
+    assert.equal(await store.get('k1'), null);
+    assert.equal(await store.get('extra'), true);
+  });
+
+  it('sweeps expired entries on write before evicting live ones', async () => {
+    const store = await fill('sweep:', MEMORY_STORE_MAX_ENTRIES - 1);
+    // Written last, so it is the most recently used entry
+    await store.set('short', 'lived', 1);
+
+    const start = realNow();
+    Date.now = () => start + 2 * 60 * 1000;
+    await store.set('extra', true);
+
+    assert.equal(await store.get('k0'), 0);
+    assert.equal(await store.get('extra'), true);
+  });
+
+  it('keeps separate areas out of the shared eviction', async () => {
+    const own = createMemoryStore('own:', createMemoryArea());
+    await own.set('batch', 'running');
+    await fill('flood:', MEMORY_STORE_MAX_ENTRIES + 1);
+    assert.equal(await own.get('batch'), 'running');
+  });
+});
+
+describe('createKVStore', () => {
+  it('passes the ttl on to KV', async () => {
+    const puts: unknown[][] = [];
+    const store = createKVStore(
+      {
+        get: async () => null,
+        put: async (...args: unknown[]) => {
+          puts.push(args);
+        },
+        delete: async () => {},
+      },
+      'kv:'
+    );
+    await store.set('rpm', 1, 120);
+    await store.set('short', 1, 5);
+    await store.set('forever', 1);
+
+    assert.deepEqual(
+      puts.map(([key, , options]) => [key, options]),
+      [
+        ['kv:rpm', { expirationTtl: 120 }],
+        ['kv:short', { expirationTtl: 60 }],
+        ['kv:forever', undefined],
+      ]
+    );
+  });
+});
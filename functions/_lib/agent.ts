@@ -0,0 +1,256 @@
+import { chatCompletions, type ChatCompletionParams } from './ai';
+import type { ChatMessage, ToolCall } from './chat';
+import {
+  accumulateChunk,
+  createAccumulator,
+  toCompletion,
+  toUsageChunk,
+  type ChatCompletion,
+  type Usage,
+} from './completion';
+import { encodeSSE, readSSE } from './sse';
+import {
+  getToolDefinitions,
+  isBuiltinTool,
+  runBuiltinTool,
+  type BuiltinToolName,
+  type ToolContext,
+} from './tools';
+
+export interface AgentOptions {
+  params: ChatCompletionParams & { messages: ChatMessage[] };
+  tools: BuiltinToolName[];
+  maxIterations: number;
+  context: ToolContext;
+  // Web search context included in every model call of the loop
+  searchContextTokens?: number;
+  // Send a final usage chunk, as with `stream_options.include_usage`
+  includeUsage?: boolean;
+}
+
+export interface AgentStep {
+  iteration: number;
+  tool_call_id: string;
+  name: string;
+  arguments: string;
+  status: 'started' | 'completed' | 'failed';
+  output?: string;
+}
+
+type AgentEvent =
+  | { type: 'chunk'; chunk: any }
+  | { type: 'step'; step: AgentStep }
+  | { type: 'done'; completion: ChatCompletion };
+
+// Tool output echoed to clients in progress events is cut to this length
+const STEP_OUTPUT_PREVIEW = 500;
+
+function addUsage(total: Usage, usage: Usage) {
+  total.prompt_tokens += usage.prompt_tokens;
+  total.completion_tokens += usage.completion_tokens;
+  total.total_tokens += usage.total_tokens;
+  if (usage.prompt_tokens_details) {
+    total.prompt_tokens_details = {
+      search_context_tokens:
+        (total.prompt_tokens_details?.search_context_tokens || 0) +
+        usage.prompt_tokens_details.search_context_tokens,
+    };
+  }
+}
+
+/**
+ * Call the model, run any built-in tools it asks for and feed the results
+ * back until it answers without tool calls. Once `maxIterations` rounds
+ * have used tools, one last call with `tool_choice: 'none'` forces an answer.
+ * Tool calls for client-defined tools end the loop so the caller can run them.
+ */
+async function* agentLoop(
+  options: AgentOptions,
+  signal?: AbortSignal
+): AsyncGenerator<AgentEvent> {
+  const { params, maxIterations, context } = options;
+  const messages: ChatMessage[] = [...params.messages];
+  const tools = [...(params.tools || []), ...getToolDefinitions(options.tools)];
+  const id = `chatcmpl-${crypto.randomUUID()}`;
+  const created = Math.floor(Date.now() / 1000);
+  const usage: Usage = {
+    prompt_tokens: 0,
+    completion_tokens: 0,
+    total_tokens: 0,
+  };
+  const steps: AgentStep[] = [];
+
+  for (let iteration = 1; ; iteration++) {
+    const isLast = iteration > maxIterations;
+    const stream = await chatCompletions(
+      {
+        ...params,
+        messages,
+        tools,
+        ...(isLast && { tool_choice: 'none' as const }),
+      },
+      context.env
+    );
+
+    const state = createAccumulator();
+    for await (const chunk of readSSE(stream, signal)) {
+      accumulateChunk(state, chunk);
+
+      // Forward text as it arrives, tool call deltas are handled below
+      const choice = chunk.choices?.[0];
+      const { tool_calls, ...delta } = choice?.delta || {};
+      if (delta.content || delta.reasoning_content) {
+        yield {
+          type: 'chunk',
+          chunk: {
+            id,
+            object: 'chat.completion.chunk',
+            created,
+            model: params.model,
+            choices: [{ index: 0, delta, finish_reason: null }],
+          },
+        };
+      }
+    }
+
+    // The client went away, so no tools are run and no model called again
+    if (signal?.aborted) return;
+
+    const completion = toCompletion(
+      state,
+      params.model,
+      messages,
+      options.searchContextTokens
+    );
+    addUsage(usage, completion.usage);
+
+    const calls = state.toolCalls.filter(Boolean).map((call) => ({
+      ...call,
+      id: call.id || `call_${crypto.randomUUID()}`,
+    }));
+    const clientCalls = calls.filter(
+      (call) => !isBuiltinTool(call.function.name)
+    );
+
+    if (!calls.length || isLast || clientCalls.length) {
+      const finishReason = clientCalls.length
+        ? 'tool_calls'
+        : state.finishReason;
+      yield {
+        type: 'chunk',
+        chunk: {
+          id,
+          object: 'chat.completion.chunk',
+          created,
+          model: params.model,
+          choices: [
+            {
+              index: 0,
+              delta: clientCalls.length
+                ? {
+                    tool_calls: clientCalls.map((call, index) => ({
+                      index,
+                      ...call,
+                    })),
+                  }
+                : {},
+              finish_reason: finishReason,
+            },
+          ],
+        },
+      };
+
+      completion.id = id;
+      completion.created = created;
+      completion.usage = usage;
+      completion.choices[0].finish_reason = finishReason;
+      completion.choices[0].message.tool_calls = clientCalls.length
+        ? clientCalls
+        : undefined;
+      completion.agent_steps = steps;
+      yield { type: 'done', completion };
+      return;
+    }
+
+    // Reasoning is left out of the history, backends reject it as input
+    messages.push({
+      role: 'assistant',
+      content: state.content,
+      tool_calls: calls as ToolCall[],
+    });
+
+    for (const call of calls) {
+      const step: AgentStep = {
+        iteration,
+        tool_call_id: call.id,
+        name: call.function.name,
+        arguments: call.function.arguments,
+        status: 'started',
+      };
+      yield { type: 'step', step };
+
+      const result = await runBuiltinTool(call, context);
+      const finished: AgentStep = {
+        ...step,
+        status: result.ok ? 'completed' : 'failed',
+        output: result.output.slice(0, STEP_OUTPUT_PREVIEW),
+      };
+      steps.push(finished);
+      yield { type: 'step', step: finished };
+
+      messages.push({
+        role: 'tool',
+        tool_call_id: call.id,
+        content: result.output,
+      });
+    }
+  }
+}
+
+/**
+ * Run the agent loop as an SSE stream. Progress is sent as `agent_step`
+ * events between the regular completion chunks.
+ */
+export function streamAgent(
+  options: AgentOptions,
+  onDone?: (completion: ChatCompletion) => void
+): ReadableStream<Uint8Array> {
+  const abort = new AbortController();
+  const events = agentLoop(options, abort.signal);
+  return new ReadableStream({
+    async pull(controller) {
+      const { done, value } = await events.next();
+      if (done) {
+        controller.enqueue(encodeSSE('[DONE]'));
+        controller.close();
+      } else if (value.type === 'chunk') {
+        controller.enqueue(encodeSSE(value.chunk));
+      } else if (value.type === 'step') {
+        controller.enqueue(encodeSSE(value.step, 'agent_step'));
+      } else {
+        // The loop ends with this event, so the stream is closed here
+        if (options.includeUsage) {
+          controller.enqueue(encodeSSE(toUsageChunk(value.completion)));
+        }
+        controller.enqueue(encodeSSE('[DONE]'));
+        controller.close();
+        onDone?.(value.completion);
+      }
+    },
+    async cancel(reason) {
+      abort.abort(reason);
+      await events.return(undefined);
+    },
+  });
+}
+
+/**
+ * Run the agent loop to completion and return the final chat.completion,
+ * with the tool steps it took in `agent_steps`
+ */
+export async function runAgent(options: AgentOptions): Promise<ChatCompletion> {
+  for await (const event of agentLoop(options)) {
+    if (event.type === 'done') return event.completion;
+  }
+  throw new Error('Agent loop ended without a completion');
+}
@@ -0,0 +1,65 @@
+import type { ChatMessage, ToolChoice, ToolDefinition } from './chat';
+import { findModel } from './models';
+import { resolveUpstream } from './providers';
+import { normalizeReasoning } from './reasoning';
+import type { SamplingParams } from './sampling';
+import { readStreamText } from './sse';
+
+export interface ChatCompletionParams extends SamplingParams {
+  model: string;
+  messages: ChatMessage[] | { role: string; content: string }[];
+  tools?: ToolDefinition[];
+  tool_choice?: ToolChoice;
+  parallel_tool_calls?: boolean;
+}
+
+/**
+ * Start a streaming chat completion on the provider that serves
+ * `params.model`, the EdgeOne AI binding unless the model says otherwise.
+ * Usage is requested so the final chunk carries the backend's own token
+ * counts, and <think> reasoning is moved into `reasoning_content`.
+ */
+export async function chatCompletions(
+  params: ChatCompletionParams,
+  env?: any
+): Promise<ReadableStream<Uint8Array>> {
+  const model = findModel(params.model, env);
+  const upstream = resolveUpstream(model, params.model, env);
+  const stream = await upstream.provider.chatCompletions({
+    ...params,
+    model: upstream.model,
+  });
+  return normalizeReasoning(stream, { implicitOpen: !!model?.reasoning });
+}
+
+/**
+ * Run a completion and return its text, for internal helper calls. After
+ * `timeoutMs` the call is rejected and the model stream is cancelled, also
+ * when it only opens later, so the backend stops generating.
+ */
+export async function completeText(
+  params: ChatCompletionParams,
+  timeoutMs: number,
+  env?: any
+): Promise<string> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new Error(`${params.model} timed out after ${timeoutMs}ms`);
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([
+      chatCompletions(params, env).then((stream) =>
+        readStreamText(stream, controller.signal)
+      ),
+      timeout,
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,449 @@
+import { z } from 'zod';
+import type { ChatMessage, ToolCall } from './chat';
+import type {
+  ChatCompletion,
+  ChatCompletionChunk,
+  ChunkDelta,
+} from './completion';
+import { ApiError, badRequest } from './errors';
+import { encodeSSE, readSSEEvents } from './sse';
+
+// Anthropic Messages API schemas, mapped onto the chat completions pipeline
+
+const textBlockSchema = z
+  .object({ type: z.literal('text'), text: z.string() })
+  .passthrough();
+
+const contentBlockSchema = z.discriminatedUnion('type', [
+  textBlockSchema,
+  z.object({ type: z.literal('image') }).passthrough(),
+  z.object({
+    type: z.literal('tool_use'),
+    id: z.string(),
+    name: z.string(),
+    input: z.record(z.any()),
+  }),
+  z.object({
+    type: z.literal('tool_result'),
+    tool_use_id: z.string(),
+    content: z.union([z.string(), z.array(textBlockSchema)]).optional(),
+    is_error: z.boolean().optional(),
+  }),
+  z.object({ type: z.literal('thinking') }).passthrough(),
+  z.object({ type: z.literal('redacted_thinking') }).passthrough(),
+]);
+
+export const anthropicRequestSchema = z
+  .object({
+    model: z.string().optional(),
+    max_tokens: z.number().int().positive(),
+    messages: z
+      .array(
+        z.object({
+          role: z.enum(['user', 'assistant']),
+          content: z.union([z.string(), z.array(contentBlockSchema)]),
+        })
+      )
+      .min(1),
+    system: z.union([z.string(), z.array(textBlockSchema)]).optional(),
+    stop_sequences: z.array(z.string()).optional(),
+    temperature: z.number().optional(),
+    top_p: z.number().optional(),
+    stream: z.boolean().optional(),
+    tools: z
+      .array(
+        z.object({
+          name: z.string(),
+          description: z.string().optional(),
+          input_schema: z.record(z.any()),
+        })
+      )
+      .optional(),
+    tool_choice: z
+      .union([
+        z.object({ type: z.enum(['auto', 'any', 'none']) }),
+        z.object({ type: z.literal('tool'), name: z.string() }),
+      ])
+      .optional(),
+    thinking: z
+      .object({ type: z.enum(['enabled', 'disabled']) })
+      .passthrough()
+      .optional(),
+    metadata: z.record(z.any()).optional(),
+    // Extensions shared with /v1/chat/completions
+    network: z.boolean().optional(),
+    deep_read: z.boolean().optional(),
+    cache: z.boolean().optional(),
+    search_options: z.record(z.any()).optional(),
+    prompt_profile: z.string().optional(),
+    locale: z.string().optional(),
+    timezone: z.string().optional(),
+  })
+  .passthrough();
+
+export type AnthropicRequest = z.infer<typeof anthropicRequestSchema>;
+
+type StopReason = 'end_turn' | 'max_tokens' | 'tool_use' | 'refusal';
+
+function toStopReason(finishReason?: string | null): StopReason {
+  if (finishReason === 'length') return 'max_tokens';
+  if (finishReason === 'tool_calls') return 'tool_use';
+  if (finishReason === 'content_filter') return 'refusal';
+  return 'end_turn';
+}
+
+function joinText(blocks: { text: string }[]): string {
+  return blocks.map((block) => block.text).join('\n');
+}
+
+/**
+ * Translate an Anthropic request body into a chat completions body
+ */
+export function toChatRequest(body: AnthropicRequest) {
+  const messages: ChatMessage[] = [];
+
+  if (body.system) {
+    messages.push({
+      role: 'system',
+      content:
+        typeof body.system === 'string' ? body.system : joinText(body.system),
+    });
+  }
+
+  for (const message of body.messages) {
+    if (typeof message.content === 'string') {
+      messages.push({ role: message.role, content: message.content });
+      continue;
+    }
+
+    const text: { text: string }[] = [];
+    const toolCalls: ToolCall[] = [];
+    for (const block of message.content) {
+      switch (block.type) {
+        case 'text':
+          text.push(block as { text: string });
+          break;
+        case 'image':
+          throw badRequest(
+            'Image content is not supported by these models.',
+            'messages',
+            'unsupported_content'
+          );
+        case 'tool_use':
+          toolCalls.push({
+            id: block.id,
+            type: 'function',
+            function: {
+              name: block.name,
+              arguments: JSON.stringify(block.input),
+            },
+          });
+          break;
+        case 'tool_result': {
+          const content =
+            typeof block.content === 'string'
+              ? block.content
+              : joinText(block.content || []);
+          // Tool results come first in a user turn, ahead of its text
+          messages.push({
+            role: 'tool',
+            tool_call_id: block.tool_use_id,
+            content: block.is_error ? `Error: ${content}` : content,
+          });
+          break;
+        }
+        // Earlier thinking is not sent back to the model
+      }
+    }
+
+    if (message.role === 'assistant') {
+      messages.push({
+        role: 'assistant',
+        content: joinText(text),
+        ...(toolCalls.length && { tool_calls: toolCalls }),
+      });
+    } else if (text.length) {
+      messages.push({ role: 'user', content: joinText(text) });
+    }
+  }
+
+  const toolChoice =
+    body.tool_choice &&
+    {
+      auto: 'auto' as const,
+      any: 'required' as const,
+      none: 'none' as const,
+      tool: {
+        type: 'function' as const,
+        function: { name: (body.tool_choice as { name?: string }).name || '' },
+      },
+    }[body.tool_choice.type];
+
+  return {
+    model: body.model,
+    messages,
+    max_tokens: body.max_tokens,
+    stream: body.stream === true,
+    ...(body.stream && { stream_options: { include_usage: true } }),
+    ...(body.stop_sequences?.length && { stop: body.stop_sequences }),
+    ...(body.temperature !== undefined && { temperature: body.temperature }),
+    ...(body.top_p !== undefined && { top_p: body.top_p }),
+    ...(body.tools?.length && {
+      tools: body.tools.map((tool) => ({
+        type: 'function',
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.input_schema,
+        },
+      })),
+    }),
+    ...(toolChoice && { tool_choice: toolChoice }),
+    ...(body.thinking?.type === 'disabled' && { include_reasoning: false }),
+    ...(body.network !== undefined && { network: body.network }),
+    ...(body.deep_read !== undefined && { deep_read: body.deep_read }),
+    ...(body.cache !== undefined && { cache: body.cache }),
+    ...(body.search_options && { search_options: body.search_options }),
+    ...(body.prompt_profile && { prompt_profile: body.prompt_profile }),
+    ...(body.locale && { locale: body.locale }),
+    ...(body.timezone && { timezone: body.timezone }),
+  };
+}
+
+function parseInput(args: string): Record<string, unknown> {
+  try {
+    return JSON.parse(args || '{}');
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Translate a chat.completion into an Anthropic message
+ */
+export function toAnthropicMessage(completion: ChatCompletion) {
+  const { message, finish_reason } = completion.choices[0];
+  return {
+    id: `msg_${completion.id}`,
+    type: 'message',
+    role: 'assistant',
+    model: completion.model,
+    content: [
+      ...(message.reasoning_content
+        ? [
+            {
+              type: 'thinking',
+              thinking: message.reasoning_content,
+              signature: '',
+            },
+          ]
+        : []),
+      ...(message.content ? [{ type: 'text', text: message.content }] : []),
+      ...(message.tool_calls || []).map((call) => ({
+        type: 'tool_use',
+        id: call.id,
+        name: call.function.name,
+        input: parseInput(call.function.arguments),
+      })),
+    ],
+    stop_reason: toStopReason(finish_reason),
+    stop_sequence: null,
+    usage: {
+      input_tokens: completion.usage.prompt_tokens,
+      output_tokens: completion.usage.completion_tokens,
+    },
+    ...((completion.sources as unknown[])?.length && {
+      sources: completion.sources,
+    }),
+  };
+}
+
+/**
+ * Anthropic error type for an HTTP status
+ */
+export function toAnthropicErrorType(status: number): string {
+  switch (status) {
+    case 401:
+      return 'authentication_error';
+    case 403:
+      return 'permission_error';
+    case 404:
+      return 'not_found_error';
+    case 413:
+      return 'request_too_large';
+    case 429:
+      return 'rate_limit_error';
+    case 503:
+      return 'overloaded_error';
+    default:
+      return status < 500 ? 'invalid_request_error' : 'api_error';
+  }
+}
+
+export function toAnthropicError(error: ApiError) {
+  return {
+    type: 'error',
+    error: { type: toAnthropicErrorType(error.status), message: error.message },
+  };
+}
+
+type BlockType = 'thinking' | 'text' | 'tool_use';
+
+/**
+ * Translate a chat completion chunk stream into Anthropic message events.
+ * Reasoning becomes thinking blocks, and named events such as `sources`
+ * are passed through as they are.
+ */
+export function toAnthropicStream(
+  stream: ReadableStream<Uint8Array>,
+  model: string
+): ReadableStream<Uint8Array> {
+  const abort = new AbortController();
+  const events = translateStream(stream, model, abort.signal);
+  return new ReadableStream({
+    async pull(controller) {
+      const { done, value } = await events.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    async cancel(reason) {
+      abort.abort(reason);
+      await events.return(undefined);
+    },
+  });
+}
+
+async function* translateStream(
+  stream: ReadableStream<Uint8Array>,
+  model: string,
+  signal?: AbortSignal
+): AsyncGenerator<Uint8Array, void, undefined> {
+  const usage = { input_tokens: 0, output_tokens: 0 };
+  let stopReason: StopReason = 'end_turn';
+  let index = -1;
+  let open: BlockType | null = null;
+  // Chunk tool call index to the content block it was opened as
+  const toolBlocks = new Map<number, number>();
+
+  const send = (type: string, data: object) =>
+    encodeSSE({ type, ...data }, type);
+  const stopBlock = () => {
+    if (!open) return [];
+    open = null;
+    return [send('content_block_stop', { index })];
+  };
+  const startBlock = (type: BlockType, block: object) => {
+    const events = stopBlock();
+    open = type;
+    index++;
+    return [
+      ...events,
+      send('content_block_start', { index, content_block: block }),
+    ];
+  };
+
+  yield send('message_start', {
+    message: {
+      id: `msg_${crypto.randomUUID().replace(/-/g, '')}`,
+      type: 'message',
+      role: 'assistant',
+      model,
+      content: [],
+      stop_reason: null,
+      stop_sequence: null,
+      usage,
+    },
+  });
+
+  for await (const { event, data } of readSSEEvents(stream, signal)) {
+    if (event === 'error') {
+      const error = JSON.parse(data).error || {};
+      yield send('error', {
+        error: {
+          type:
+            error.type === 'rate_limit_error'
+              ? 'rate_limit_error'
+              : 'api_error',
+          message: error.message || 'Stream failed',
+        },
+      });
+      return;
+    }
+    if (event) {
+      yield encodeSSE(data, event);
+      continue;
+    }
+    if (data === '[DONE]') continue;
+
+    let chunk: ChatCompletionChunk;
+    try {
+      chunk = JSON.parse(data);
+    } catch {
+      continue;
+    }
+
+    if (chunk.usage) {
+      usage.input_tokens = chunk.usage.prompt_tokens;
+      usage.output_tokens = chunk.usage.completion_tokens;
+    }
+    const choice = chunk.choices?.[0];
+    if (!choice) continue;
+    const delta: ChunkDelta = choice.delta || {};
+
+    if (delta.reasoning_content) {
+      if (open !== 'thinking') {
+        yield* startBlock('thinking', { type: 'thinking', thinking: '' });
+      }
+      yield send('content_block_delta', {
+        index,
+        delta: { type: 'thinking_delta', thinking: delta.reasoning_content },
+      });
+    }
+
+    if (delta.content) {
+      if (open !== 'text') {
+        yield* startBlock('text', { type: 'text', text: '' });
+      }
+      yield send('content_block_delta', {
+        index,
+        delta: { type: 'text_delta', text: delta.content },
+      });
+    }
+
+    for (const call of delta.tool_calls || []) {
+      const callIndex = call.index ?? toolBlocks.size;
+      if (!toolBlocks.has(callIndex)) {
+        yield* startBlock('tool_use', {
+          type: 'tool_use',
+          id: call.id || `toolu_${crypto.randomUUID().replace(/-/g, '')}`,
+          name: call.function?.name || '',
+          input: {},
+        });
+        toolBlocks.set(callIndex, index);
+      }
+      if (call.function?.arguments) {
+        yield send('content_block_delta', {
+          index: toolBlocks.get(callIndex),
+          delta: {
+            type: 'input_json_delta',
+            partial_json: call.function.arguments,
+          },
+        });
+      }
+    }
+
+    if (choice.finish_reason) {
+      stopReason = toStopReason(choice.finish_reason);
+    }
+  }
+
+  yield* stopBlock();
+  yield send('message_delta', {
+    delta: { stop_reason: stopReason, stop_sequence: null },
+    usage,
+  });
+  yield send('message_stop', {});
+}
@@ -0,0 +1,175 @@
+import { z } from 'zod';
+import { toPositiveInt } from './env';
+import { notFound, rateLimited, serverError, unauthorized } from './errors';
+import { sha256Hex } from './hash';
+import { checkTokenBudget, consumeRequest, recordTokens } from './ratelimit';
+import type { KeyValueStore } from './storage';
+
+export interface ApiKeyConfig {
+  key: string;
+  name?: string;
+  requestsPerMinute?: number;
+  tokensPerDay?: number;
+  models?: string[];
+}
+
+export interface AuthContext {
+  id: string;
+  config: ApiKeyConfig;
+}
+
+// `API_KEYS` is either a comma separated key list or a JSON array of these
+const apiKeySchema = z.object({
+  key: z.string().min(1),
+  name: z.string().optional(),
+  requests_per_minute: z.number().int().positive().optional(),
+  tokens_per_day: z.number().int().positive().optional(),
+  models: z.array(z.string()).optional(),
+});
+
+// Clients only learn that the keys are misconfigured, the details go to
+// the log without any of the value, which holds the keys themselves
+function invalidApiKeys(detail: string) {
+  console.error(`Invalid API_KEYS: ${detail}`);
+  return serverError(
+    'The server is not configured correctly.',
+    'configuration_error'
+  );
+}
+
+/**
+ * Read the configured API keys, an empty list disables authentication.
+ * A malformed list throws, so requests fail rather than go unchecked.
+ */
+export function loadApiKeys(env: any): ApiKeyConfig[] {
+  const raw = String(env?.API_KEYS || '').trim();
+  if (!raw) return [];
+
+  const defaults = {
+    requestsPerMinute: toPositiveInt(env?.RATE_LIMIT_RPM),
+    tokensPerDay: toPositiveInt(env?.RATE_LIMIT_TPD),
+  };
+
+  if (!raw.startsWith('[')) {
+    return raw
+      .split(',')
+      .map((key) => key.trim())
+      .filter(Boolean)
+      .map((key) => ({ key, ...defaults }));
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw invalidApiKeys('not valid JSON');
+  }
+  const result = z.array(apiKeySchema).safeParse(parsed);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw invalidApiKeys(`${issue.path.join('.')}: ${issue.message}`);
+  }
+
+  return result.data.map((item) => ({
+    key: item.key,
+    name: item.name,
+    requestsPerMinute: item.requests_per_minute ?? defaults.requestsPerMinute,
+    tokensPerDay: item.tokens_per_day ?? defaults.tokensPerDay,
+    models: item.models,
+  }));
+}
+
+/**
+ * Stable identifier for a key's counters that does not store the key itself
+ */
+async function keyId(config: ApiKeyConfig): Promise<string> {
+  return config.name || (await sha256Hex(config.key)).slice(0, 16);
+}
+
+/**
+ * Check the bearer key and count the request against its per-minute quota.
+ * Returns null when authentication is disabled.
+ */
+export async function authenticate(
+  request: Request,
+  env: any,
+  store: KeyValueStore
+): Promise<AuthContext | null> {
+  const keys = loadApiKeys(env);
+  if (!keys.length) return null;
+
+  const header = request.headers.get('Authorization') || '';
+  const token = header.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+
+  if (!token) {
+    throw unauthorized(
+      'Missing API key. Provide it as `Authorization: Bearer <key>`.',
+      'missing_api_key'
+    );
+  }
+
+  const config = keys.find((item) => item.key === token);
+  if (!config) {
+    throw unauthorized('Incorrect API key provided.', 'invalid_api_key');
+  }
+
+  const auth = { id: await keyId(config), config };
+  const { allowed, retryAfter } = await consumeRequest(
+    store,
+    auth.id,
+    config.requestsPerMinute
+  );
+
+  if (!allowed) {
+    throw rateLimited(
+      `Rate limit reached: ${config.requestsPerMinute} requests per minute.`,
+      retryAfter
+    );
+  }
+
+  return auth;
+}
+
+/**
+ * Enforce the key's model allow list and daily token budget
+ */
+export async function authorizeModel(
+  auth: AuthContext | null,
+  model: string,
+  store: KeyValueStore
+): Promise<void> {
+  if (!auth) return;
+
+  const { models, tokensPerDay } = auth.config;
+  if (models && !models.includes(model)) {
+    throw notFound(
+      `The model \`${model}\` does not exist or you do not have access to it.`,
+      'model_not_found',
+      'model'
+    );
+  }
+
+  const { allowed, retryAfter } = await checkTokenBudget(
+    store,
+    auth.id,
+    tokensPerDay
+  );
+  if (!allowed) {
+    throw rateLimited(
+      `Rate limit reached: ${tokensPerDay} tokens per day.`,
+      retryAfter
+    );
+  }
+}
+
+/**
+ * Charge a finished request's tokens to the key's daily budget
+ */
+export async function chargeTokens(
+  auth: AuthContext | null,
+  tokens: number,
+  store: KeyValueStore
+): Promise<void> {
+  if (!auth?.config.tokensPerDay) return;
+  await recordTokens(store, auth.id, tokens);
+}
@@ -0,0 +1,348 @@
+import type { AuthContext } from './auth';
+import { toPositiveInt } from './env';
+import { badRequest, notFound } from './errors';
+import { createMemoryArea, createStore, type KeyValueStore } from './storage';
+
+// Batch jobs modeled on OpenAI's batch API, for JSONL files of chat requests
+
+export const BATCH_ENDPOINT = '/v1/chat/completions';
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_MAX_REQUESTS = 1000;
+const DEFAULT_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export interface BatchConfig {
+  concurrency: number;
+  maxRequests: number;
+  ttlSeconds: number;
+}
+
+export function getBatchConfig(env: any): BatchConfig {
+  return {
+    concurrency: toPositiveInt(env?.BATCH_CONCURRENCY, DEFAULT_CONCURRENCY),
+    maxRequests: toPositiveInt(env?.BATCH_MAX_REQUESTS, DEFAULT_MAX_REQUESTS),
+    ttlSeconds: toPositiveInt(env?.BATCH_TTL_SECONDS, DEFAULT_TTL_SECONDS),
+  };
+}
+
+export type BatchStatus =
+  'in_progress' | 'completed' | 'failed' | 'cancelling' | 'cancelled';
+
+export interface Batch {
+  id: string;
+  object: 'batch';
+  endpoint: typeof BATCH_ENDPOINT;
+  status: BatchStatus;
+  created_at: number;
+  in_progress_at: number | null;
+  completed_at: number | null;
+  failed_at: number | null;
+  cancelled_at: number | null;
+  expires_at: number;
+  request_counts: { total: number; completed: number; failed: number };
+  // Where the JSONL results can be read, also while the batch runs
+  results_url: string;
+  errors: { message: string } | null;
+  // API key that created the batch, only it can read the batch back
+  owner: string | null;
+}
+
+export interface BatchRequest {
+  custom_id: string;
+  body: Record<string, unknown>;
+}
+
+export interface BatchResult {
+  id: string;
+  custom_id: string;
+  // The completions route's answer, error responses included
+  response: {
+    status_code: number;
+    request_id: string | null;
+    body: unknown;
+  } | null;
+  // Set when the request could not be run at all
+  error: { code: string; message: string } | null;
+}
+
+/**
+ * Parse an uploaded JSONL file of `{ custom_id, body }` lines. `method` and
+ * `url` may be given as in OpenAI batch files, but only chat completions
+ * are supported.
+ */
+export function parseBatchInput(
+  text: string,
+  maxRequests: number
+): BatchRequest[] {
+  const lines = text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  if (!lines.length) {
+    throw badRequest('The batch file has no requests.', 'input', 'empty_batch');
+  }
+  if (lines.length > maxRequests) {
+    throw badRequest(
+      `The batch file has ${lines.length} requests, the limit is ${maxRequests}.`,
+      'input',
+      'too_many_requests'
+    );
+  }
+
+  const seen = new Set<string>();
+  return lines.map((line, i) => {
+    const fail = (message: string) =>
+      badRequest(`Line ${i + 1}: ${message}`, 'input', 'invalid_batch_line');
+
+    let item: any;
+    try {
+      item = JSON.parse(line);
+    } catch {
+      throw fail('not valid JSON.');
+    }
+
+    if (typeof item?.custom_id !== 'string' || !item.custom_id) {
+      throw fail('custom_id must be a non-empty string.');
+    }
+    if (seen.has(item.custom_id)) {
+      throw fail(`duplicate custom_id ${item.custom_id}.`);
+    }
+    seen.add(item.custom_id);
+
+    if (item.method !== undefined && item.method !== 'POST') {
+      throw fail('method must be POST.');
+    }
+    if (item.url !== undefined && item.url !== BATCH_ENDPOINT) {
+      throw fail(`url must be ${BATCH_ENDPOINT}.`);
+    }
+    if (
+      !item.body ||
+      typeof item.body !== 'object' ||
+      Array.isArray(item.body)
+    ) {
+      throw fail('body must be a chat completions request object.');
+    }
+
+    return { custom_id: item.custom_id, body: item.body };
+  });
+}
+
+// Job state lives behind this interface, so the runner and routes do not
+// depend on where it is kept
+export interface BatchStore {
+  create(batch: Batch, requests: BatchRequest[]): Promise<void>;
+  get(id: string): Promise<Batch | null>;
+  update(batch: Batch): Promise<void>;
+  getRequests(id: string): Promise<BatchRequest[]>;
+  setResult(id: string, index: number, result: BatchResult): Promise<void>;
+  // Results written so far, in input order
+  getResults(id: string, total: number): Promise<BatchResult[]>;
+  requestCancel(id: string): Promise<void>;
+  isCancelRequested(id: string): Promise<boolean>;
+}
+
+/**
+ * Batch store on a key-value store, which is KV when bound and memory
+ * otherwise. Everything expires after `ttlSeconds`.
+ */
+export function createBatchStore(
+  store: KeyValueStore,
+  ttlSeconds: number
+): BatchStore {
+  return {
+    async create(batch, requests) {
+      await store.set(`${batch.id}:requests`, requests, ttlSeconds);
+      await store.set(batch.id, batch, ttlSeconds);
+    },
+    get(id) {
+      return store.get<Batch>(id);
+    },
+    update(batch) {
+      return store.set(batch.id, batch, ttlSeconds);
+    },
+    async getRequests(id) {
+      return (await store.get<BatchRequest[]>(`${id}:requests`)) || [];
+    },
+    setResult(id, index, result) {
+      return store.set(`${id}:result:${index}`, result, ttlSeconds);
+    },
+    async getResults(id, total) {
+      const results = await Promise.all(
+        Array.from({ length: total }, (_, i) =>
+          store.get<BatchResult>(`${id}:result:${i}`)
+        )
+      );
+      return results.filter((result): result is BatchResult => !!result);
+    },
+    requestCancel(id) {
+      return store.set(`${id}:cancel`, true, ttlSeconds);
+    },
+    async isCancelRequested(id) {
+      return !!(await store.get<boolean>(`${id}:cancel`));
+    },
+  };
+}
+
+// Without KV, batches keep their own memory so a burst of rate limit or
+// cache entries cannot evict a batch that is still running
+const batchMemory = createMemoryArea();
+
+export function getBatchStore(env: any, config: BatchConfig): BatchStore {
+  return createBatchStore(
+    createStore(env, 'batch:', batchMemory),
+    config.ttlSeconds
+  );
+}
+
+/**
+ * Look up a batch for the caller. Batches of other API keys are reported as
+ * missing, the same as unknown ids. A running batch with a pending cancel
+ * request is reported as `cancelling` until the runner stops it.
+ */
+export async function loadBatch(
+  store: BatchStore,
+  id: string,
+  auth: AuthContext | null
+): Promise<Batch> {
+  const batch = id ? await store.get(id) : null;
+  if (!batch || batch.owner !== (auth?.id ?? null)) {
+    throw notFound(`No batch found with id '${id}'.`, 'batch_not_found', 'id');
+  }
+  if (batch.status === 'in_progress' && (await store.isCancelRequested(id))) {
+    batch.status = 'cancelling';
+  }
+  return batch;
+}
+
+export function createBatch(
+  requestCount: number,
+  owner: string | null,
+  ttlSeconds: number
+): Batch {
+  const id = `batch_${crypto.randomUUID().replace(/-/g, '')}`;
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    id,
+    object: 'batch',
+    endpoint: BATCH_ENDPOINT,
+    status: 'in_progress',
+    created_at: now,
+    in_progress_at: now,
+    completed_at: null,
+    failed_at: null,
+    cancelled_at: null,
+    expires_at: now + ttlSeconds,
+    request_counts: { total: requestCount, completed: 0, failed: 0 },
+    results_url: `/v1/batches/${id}/results`,
+    errors: null,
+    owner,
+  };
+}
+
+/**
+ * The batch as clients see it, without the owner's key id
+ */
+export function toBatchObject(batch: Batch) {
+  const { owner, ...visible } = batch;
+  return visible;
+}
+
+export function toResultsJsonl(results: BatchResult[]): string {
+  return results.map((result) => JSON.stringify(result)).join('\n');
+}
+
+export interface RunBatchOptions {
+  store: BatchStore;
+  concurrency: number;
+  // Run one request through the completions pipeline
+  run(
+    request: BatchRequest,
+    index: number
+  ): Promise<NonNullable<BatchResult['response']>>;
+}
+
+/**
+ * Work through a batch with at most `concurrency` requests in flight.
+ * A failed request is recorded and the batch keeps going, a cancelled
+ * batch stops starting new requests.
+ */
+export async function runBatch(
+  batch: Batch,
+  options: RunBatchOptions
+): Promise<Batch> {
+  const { store } = options;
+  const requests = await store.getRequests(batch.id);
+  let next = 0;
+  let cancelled = false;
+
+  // The cancel route only sets a flag, the runner owns the batch record
+  const checkCancelled = async () => {
+    if (!cancelled && (await store.isCancelRequested(batch.id))) {
+      cancelled = true;
+      batch.status = 'cancelling';
+    }
+  };
+
+  const worker = async () => {
+    while (next < requests.length && !cancelled) {
+      const index = next++;
+      const request = requests[index];
+      let result: BatchResult;
+      try {
+        const response = await options.run(request, index);
+        result = {
+          id: `batch_req_${batch.id.slice(6)}_${index}`,
+          custom_id: request.custom_id,
+          response,
+          error: null,
+        };
+      } catch (error: any) {
+        result = {
+          id: `batch_req_${batch.id.slice(6)}_${index}`,
+          custom_id: request.custom_id,
+          response: null,
+          error: {
+            code: 'internal_error',
+            message: error?.message || String(error),
+          },
+        };
+      }
+
+      await store.setResult(batch.id, index, result);
+      if (result.response && result.response.status_code < 400) {
+        batch.request_counts.completed++;
+      } else {
+        batch.request_counts.failed++;
+      }
+      await checkCancelled();
+      await store.update(batch);
+    }
+  };
+
+  try {
+    await checkCancelled();
+    await Promise.all(
+      Array.from(
+        { length: Math.max(1, Math.min(options.concurrency, requests.length)) },
+        worker
+      )
+    );
+    const now = Math.floor(Date.now() / 1000);
+    if (cancelled) {
+      batch.status = 'cancelled';
+      batch.cancelled_at = now;
+    } else {
+      batch.status = 'completed';
+      batch.completed_at = now;
+    }
+  } catch (error: any) {
+    console.error('Batch failed:', error);
+    batch.status = 'failed';
+    batch.failed_at = Math.floor(Date.now() / 1000);
+    batch.errors = { message: error?.message || String(error) };
+  }
+
+  await store.update(batch);
+  return batch;
+}
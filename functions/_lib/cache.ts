@@ -0,0 +1,99 @@
+import type { ChatCompletionParams } from './ai';
+import type { ChatCompletion } from './completion';
+import { toNonNegativeInt } from './env';
+import { sha256Hex } from './hash';
+import type { SearchProvider, SearchResult } from './search';
+import { createStore, type KeyValueStore } from './storage';
+
+export type CacheStatus = 'HIT' | 'MISS' | 'BYPASS';
+
+export interface CacheConfig {
+  store: KeyValueStore;
+  searchTtl: number;
+  completionTtl: number;
+}
+
+/**
+ * Resolve cache settings, null when the request opted out with `cache: false`
+ */
+export function getCacheConfig(env: any, enabled = true): CacheConfig | null {
+  if (!enabled) return null;
+  return {
+    store: createStore(env, 'cache:'),
+    searchTtl: toNonNegativeInt(env?.SEARCH_CACHE_TTL, 600),
+    completionTtl: toNonNegativeInt(env?.COMPLETION_CACHE_TTL, 3600),
+  };
+}
+
+function normalizeQuery(query: string): string {
+  return query.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Wrap a search provider so non-empty results are reused per normalized query
+ */
+export function withSearchCache(
+  provider: SearchProvider,
+  cache: CacheConfig
+): SearchProvider {
+  if (!cache.searchTtl) return provider;
+
+  return {
+    name: provider.name,
+    async search(query, options) {
+      // Filters change what the provider returns, so they are part of the key
+      const filters = JSON.stringify(options.filters || {});
+      const key = `search:${provider.name}:${options.count}:${await sha256Hex(
+        filters === '{}'
+          ? normalizeQuery(query)
+          : `${normalizeQuery(query)}\n${filters}`
+      )}`;
+      const cached = await cache.store.get<SearchResult[]>(key);
+      if (cached) {
+        return { ok: true, results: cached, cached: true };
+      }
+
+      const response = await provider.search(query, options);
+      if (response.ok && response.results.length) {
+        await cache.store.set(key, response.results, cache.searchTtl);
+      }
+      return response;
+    },
+  };
+}
+
+/**
+ * Only requests that pin the sampling down are worth replaying
+ */
+export function isDeterministic(params: ChatCompletionParams): boolean {
+  return params.temperature === 0 || params.seed !== undefined;
+}
+
+export async function completionCacheKey(
+  params: ChatCompletionParams
+): Promise<string> {
+  const { model, messages, tools, tool_choice, ...sampling } = params;
+  return `completion:${await sha256Hex(
+    JSON.stringify({ model, messages, tools, tool_choice, sampling })
+  )}`;
+}
+
+export function getCachedCompletion(
+  cache: CacheConfig,
+  key: string
+): Promise<ChatCompletion | null> {
+  return cache.store.get<ChatCompletion>(key);
+}
+
+/**
+ * Store a finished completion, truncated or failed answers are not cached
+ */
+export async function setCachedCompletion(
+  cache: CacheConfig,
+  key: string,
+  completion: ChatCompletion
+): Promise<void> {
+  const finishReason = completion.choices[0]?.finish_reason;
+  if (finishReason !== 'stop' && finishReason !== 'tool_calls') return;
+  await cache.store.set(key, completion, cache.completionTtl);
+}
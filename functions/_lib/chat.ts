@@ -0,0 +1,66 @@
+import { z } from 'zod';
+
+// OpenAI chat message and tool schemas shared by the completion routes
+
+const textPartSchema = z.object({ type: z.literal('text'), text: z.string() });
+
+// Text part arrays and null assistant content are flattened to plain strings
+const contentSchema = z
+  .union([z.string(), z.null(), z.array(textPartSchema)])
+  .transform((content) =>
+    Array.isArray(content)
+      ? content.map((part) => part.text).join('\n')
+      : (content ?? '')
+  );
+
+export const toolCallSchema = z.object({
+  id: z.string(),
+  type: z.literal('function'),
+  function: z.object({ name: z.string(), arguments: z.string() }),
+});
+
+export const chatMessageSchema = z.discriminatedUnion('role', [
+  z.object({
+    role: z.literal('system'),
+    content: contentSchema,
+    name: z.string().optional(),
+  }),
+  z.object({
+    role: z.literal('user'),
+    content: contentSchema,
+    name: z.string().optional(),
+  }),
+  z.object({
+    role: z.literal('assistant'),
+    content: contentSchema.optional().transform((content) => content ?? ''),
+    name: z.string().optional(),
+    tool_calls: z.array(toolCallSchema).optional(),
+  }),
+  z.object({
+    role: z.literal('tool'),
+    content: contentSchema,
+    tool_call_id: z.string(),
+  }),
+]);
+
+export const toolSchema = z.object({
+  type: z.literal('function'),
+  function: z.object({
+    name: z.string().regex(/^[a-zA-Z0-9_-]{1,64}$/),
+    description: z.string().optional(),
+    parameters: z.record(z.any()).optional(),
+  }),
+});
+
+export const toolChoiceSchema = z.union([
+  z.enum(['none', 'auto', 'required']),
+  z.object({
+    type: z.literal('function'),
+    function: z.object({ name: z.string() }),
+  }),
+]);
+
+export type ChatMessage = z.output<typeof chatMessageSchema>;
+export type ToolCall = z.infer<typeof toolCallSchema>;
+export type ToolDefinition = z.infer<typeof toolSchema>;
+export type ToolChoice = z.infer<typeof toolChoiceSchema>;
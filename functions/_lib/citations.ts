@@ -0,0 +1,92 @@
+import { isEmptyDelta } from './completion';
+import { mapSSE } from './sse';
+
+// [citation:3], or [citation:1,3] which is split into one marker per source
+const CITATION_PATTERN = /\[citation:\s*([\d\s,]+)\]/g;
+
+// A trailing fragment that may still grow into a marker
+const PARTIAL_PATTERN = /\[(c(i(t(a(t(i(o(n(:[\d\s,]*)?)?)?)?)?)?)?)?)?$/;
+
+// Longest fragment held back, anything longer is not a marker
+const MAX_PARTIAL = 24;
+
+/**
+ * Keep only citation markers that point at one of `count` search results
+ */
+export function filterCitations(text: string, count: number): string {
+  return text.replace(CITATION_PATTERN, (_, indexes: string) =>
+    indexes
+      .split(',')
+      .map((index) => Number(index.trim()))
+      .filter(
+        (index) => Number.isInteger(index) && index >= 1 && index <= count
+      )
+      .map((index) => `[citation:${index}]`)
+      .join('')
+  );
+}
+
+/**
+ * Filter citation markers in streamed text. A marker cut across chunks is
+ * held back until it is complete.
+ */
+export function createCitationFilter(count: number) {
+  let pending = '';
+
+  return {
+    push(text: string): string {
+      const buffer = pending + text;
+      const partial = buffer.match(PARTIAL_PATTERN)?.[0] || '';
+      pending = partial.length <= MAX_PARTIAL ? partial : '';
+      return filterCitations(
+        buffer.slice(0, buffer.length - pending.length),
+        count
+      );
+    },
+    flush(): string {
+      const rest = pending;
+      pending = '';
+      return rest;
+    },
+  };
+}
+
+/**
+ * Drop citation markers with no matching search result from a completion
+ * chunk stream
+ */
+export function validateCitations(
+  stream: ReadableStream<Uint8Array>,
+  count: number
+): ReadableStream<Uint8Array> {
+  const filter = createCitationFilter(count);
+  let last: any = null;
+
+  return mapSSE(
+    stream,
+    (chunk) => {
+      const choice = chunk.choices?.[0];
+      if (!choice?.delta) return chunk;
+
+      last = chunk;
+      const text =
+        filter.push(choice.delta.content || '') +
+        (choice.finish_reason ? filter.flush() : '');
+      choice.delta.content = text || undefined;
+      return isEmptyDelta(choice.delta) && !choice.finish_reason ? null : chunk;
+    },
+    () => {
+      const rest = filter.flush();
+      return last && rest
+        ? [
+            {
+              ...last,
+              choices: [
+                { index: 0, delta: { content: rest }, finish_reason: null },
+              ],
+            },
+          ]
+        : [];
+    }
+  );
+}
@@ -0,0 +1,345 @@
+import type { ChatMessage, ToolCall } from './chat';
+import { estimateMessageTokens } from './context';
+import { encodeSSE, readSSE } from './sse';
+import { estimateTokens } from './tokens';
+
+export interface Usage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  // Share of prompt_tokens taken by injected web search context
+  prompt_tokens_details?: { search_context_tokens: number };
+}
+
+export interface AssistantMessage {
+  role: 'assistant';
+  content: string | null;
+  reasoning_content?: string;
+  tool_calls?: ToolCall[];
+}
+
+export interface ChatCompletion {
+  id: string;
+  object: 'chat.completion';
+  created: number;
+  model: string;
+  choices: {
+    index: number;
+    message: AssistantMessage;
+    finish_reason: string;
+  }[];
+  usage: Usage;
+  [extra: string]: unknown;
+}
+
+export interface ChunkDelta {
+  role?: string;
+  content?: string | null;
+  reasoning_content?: string | null;
+  // Pieces of tool calls, matched up by index across chunks
+  tool_calls?: {
+    index?: number;
+    id?: string;
+    type?: 'function';
+    function?: { name?: string; arguments?: string };
+  }[];
+}
+
+/**
+ * One chat.completion.chunk as backends stream it. Every field is optional
+ * since backends differ in what they send.
+ */
+export interface ChatCompletionChunk {
+  id?: string;
+  object?: string;
+  created?: number;
+  model?: string;
+  choices?: {
+    index?: number;
+    delta?: ChunkDelta;
+    finish_reason?: string | null;
+  }[];
+  usage?: Usage | null;
+}
+
+/**
+ * Running state of a streamed completion, built up one chunk at a time
+ */
+export interface CompletionAccumulator {
+  id: string;
+  content: string;
+  reasoning: string;
+  toolCalls: ToolCall[];
+  finishReason: string;
+  usage?: Usage;
+}
+
+export function createAccumulator(): CompletionAccumulator {
+  return {
+    id: '',
+    content: '',
+    reasoning: '',
+    toolCalls: [],
+    finishReason: 'stop',
+  };
+}
+
+/**
+ * Merge one chunk into the accumulator. Tool call deltas arrive in pieces
+ * keyed by index, with the arguments string split across chunks.
+ */
+export function accumulateChunk(
+  state: CompletionAccumulator,
+  chunk: ChatCompletionChunk
+) {
+  state.id = state.id || chunk.id || '';
+  state.usage = chunk.usage || state.usage;
+
+  const choice = chunk.choices?.[0];
+  if (!choice) return;
+
+  state.content += choice.delta?.content || '';
+  state.reasoning += choice.delta?.reasoning_content || '';
+  state.finishReason = choice.finish_reason || state.finishReason;
+
+  for (const delta of choice.delta?.tool_calls || []) {
+    const index = delta.index ?? state.toolCalls.length;
+    const call = (state.toolCalls[index] ||= {
+      id: '',
+      type: 'function',
+      function: { name: '', arguments: '' },
+    });
+    call.id = delta.id || call.id;
+    call.function.name += delta.function?.name || '';
+    call.function.arguments += delta.function?.arguments || '';
+  }
+}
+
+/**
+ * Whether a chunk delta has nothing left worth sending
+ */
+export function isEmptyDelta(delta: Record<string, unknown>): boolean {
+  return Object.keys(delta).every(
+    (key) => delta[key] === undefined || delta[key] === ''
+  );
+}
+
+/**
+ * Count prompt tokens for messages when the backend does not report usage
+ */
+export function estimatePromptTokens(messages: ChatMessage[]): number {
+  return messages.reduce(
+    (sum, message) => sum + estimateMessageTokens(message),
+    0
+  );
+}
+
+/**
+ * Assistant message for an accumulated completion
+ */
+export function toAssistantMessage(
+  state: CompletionAccumulator
+): AssistantMessage {
+  const toolCalls = state.toolCalls.filter(Boolean);
+  return {
+    role: 'assistant',
+    content: state.content || (toolCalls.length ? null : ''),
+    ...(state.reasoning && { reasoning_content: state.reasoning }),
+    ...(toolCalls.length && { tool_calls: toolCalls }),
+  };
+}
+
+/**
+ * Build a chat.completion object from an accumulator. Usage reported by the
+ * backend is used as is, otherwise it is estimated from the text.
+ */
+export function toCompletion(
+  state: CompletionAccumulator,
+  model: string,
+  promptMessages: ChatMessage[],
+  searchContextTokens = 0
+): ChatCompletion {
+  let usage: Usage;
+  if (state.usage) {
+    const { prompt_tokens, completion_tokens, total_tokens } = state.usage;
+    usage = { prompt_tokens, completion_tokens, total_tokens };
+  } else {
+    const promptTokens = estimatePromptTokens(promptMessages);
+    const completionTokens = estimateTokens(
+      state.reasoning +
+        state.content +
+        state.toolCalls
+          .filter(Boolean)
+          .map((call) => call.function.name + call.function.arguments)
+          .join('')
+    );
+    usage = {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+    };
+  }
+  if (searchContextTokens) {
+    usage.prompt_tokens_details = {
+      search_context_tokens: searchContextTokens,
+    };
+  }
+
+  return {
+    id: state.id || `chatcmpl-${crypto.randomUUID()}`,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [
+      {
+        index: 0,
+        message: toAssistantMessage(state),
+        finish_reason: state.finishReason,
+      },
+    ],
+    usage,
+  };
+}
+
+/**
+ * Drain a model stream into a single chat.completion object
+ */
+export async function collectCompletion(
+  stream: ReadableStream<Uint8Array>,
+  model: string,
+  promptMessages: ChatMessage[],
+  searchContextTokens = 0
+): Promise<ChatCompletion> {
+  const state = createAccumulator();
+  for await (const chunk of readSSE(stream)) {
+    accumulateChunk(state, chunk);
+  }
+  return toCompletion(state, model, promptMessages, searchContextTokens);
+}
+
+/**
+ * The final chunk sent for `stream_options: { include_usage: true }`
+ */
+export function toUsageChunk(completion: ChatCompletion) {
+  return {
+    id: completion.id,
+    object: 'chat.completion.chunk',
+    created: completion.created,
+    model: completion.model,
+    choices: [],
+    usage: completion.usage,
+  };
+}
+
+export interface MeterOptions {
+  model: string;
+  promptMessages: ChatMessage[];
+  searchContextTokens?: number;
+  includeUsage?: boolean;
+}
+
+/**
+ * Pass a model stream through while accounting for its usage. Usage chunks
+ * from the backend are held back and, if the client asked for
+ * `include_usage`, replaced by one final chunk with the resolved numbers.
+ * `onDone` also runs when the client goes away, with `complete` unset.
+ */
+export function meterStream(
+  stream: ReadableStream<Uint8Array>,
+  options: MeterOptions,
+  onDone?: (completion: ChatCompletion, complete: boolean) => void
+): ReadableStream<Uint8Array> {
+  const abort = new AbortController();
+  const chunks = readSSE(stream, abort.signal);
+  const state = createAccumulator();
+  const finish = () =>
+    toCompletion(
+      state,
+      options.model,
+      options.promptMessages,
+      options.searchContextTokens
+    );
+
+  return new ReadableStream({
+    async pull(controller) {
+      let { done, value: chunk } = await chunks.next();
+
+      // Backend usage chunks are held back, read on so the pull enqueues
+      while (!done && chunk.usage && !chunk.choices?.length) {
+        accumulateChunk(state, chunk);
+        ({ done, value: chunk } = await chunks.next());
+      }
+
+      if (done) {
+        const completion = finish();
+        if (options.includeUsage) {
+          controller.enqueue(encodeSSE(toUsageChunk(completion)));
+        }
+        controller.enqueue(encodeSSE('[DONE]'));
+        controller.close();
+        onDone?.(completion, true);
+        return;
+      }
+
+      accumulateChunk(state, chunk);
+      // Chunks name the model that answered, which may be a fallback
+      const { usage, ...rest } = chunk;
+      controller.enqueue(encodeSSE({ ...rest, model: options.model }));
+    },
+    async cancel(reason) {
+      abort.abort(reason);
+      await chunks.return(undefined);
+      onDone?.(finish(), false);
+    },
+  });
+}
+
+/**
+ * Replay a stored completion as a chat.completion.chunk SSE stream
+ */
+export function replayCompletion(
+  completion: ChatCompletion,
+  includeUsage = false
+): ReadableStream<Uint8Array> {
+  const { message, finish_reason } = completion.choices[0];
+  const base = {
+    id: completion.id,
+    object: 'chat.completion.chunk',
+    created: completion.created,
+    model: completion.model,
+  };
+  const deltas = [
+    { role: 'assistant', content: '' },
+    message.reasoning_content
+      ? { reasoning_content: message.reasoning_content }
+      : null,
+    message.content ? { content: message.content } : null,
+    message.tool_calls
+      ? {
+          tool_calls: message.tool_calls.map((call, index) => ({
+            index,
+            ...call,
+          })),
+        }
+      : null,
+  ].filter(Boolean);
+
+  const messages = [
+    ...deltas.map((delta) =>
+      encodeSSE({
+        ...base,
+        choices: [{ index: 0, delta, finish_reason: null }],
+      })
+    ),
+    encodeSSE({ ...base, choices: [{ index: 0, delta: {}, finish_reason }] }),
+    ...(includeUsage ? [encodeSSE(toUsageChunk(completion))] : []),
+    encodeSSE('[DONE]'),
+  ];
+
+  return new ReadableStream({
+    start(controller) {
+      messages.forEach((chunk) => controller.enqueue(chunk));
+      controller.close();
+    },
+  });
+}
@@ -0,0 +1,228 @@
+import type { ChatMessage } from './chat';
+import { toPositiveInt } from './env';
+import { badRequest } from './errors';
+import type { ModelConfig } from './models';
+import type { SearchResult } from './search';
+import { estimateTokens, truncateToTokens } from './tokens';
+
+// How older turns that no longer fit are handled
+export type ContextStrategy = 'summarize' | 'truncate';
+
+const CONTEXT_STRATEGIES: ContextStrategy[] = ['summarize', 'truncate'];
+
+// Role markers and separators the backend adds around every message
+const MESSAGE_OVERHEAD = 4;
+
+// Title, url and the [webpage X begin]/[webpage X end] markers
+const RESULT_OVERHEAD = 40;
+
+// Below this a search result is not worth keeping
+const MIN_RESULT_TOKENS = 120;
+
+const SUMMARY_LINE_TOKENS = 80;
+
+export interface ContextBudget {
+  // Tokens left for the prompt once the completion is reserved
+  promptTokens: number;
+  // Tokens the web-search context may use
+  searchTokens: number;
+  strategy: ContextStrategy;
+}
+
+export interface FittedMessages {
+  messages: ChatMessage[];
+  promptTokens: number;
+  // Older messages removed without a trace
+  dropped: number;
+  // Older messages condensed into the summary note
+  summarized: number;
+}
+
+/**
+ * Work out the prompt and search budgets for a model and requested completion size
+ */
+export function getContextBudget(
+  env: any,
+  model: ModelConfig,
+  maxTokens?: number
+): ContextBudget {
+  const reserved =
+    maxTokens ||
+    Math.min(
+      model.maxOutputTokens,
+      toPositiveInt(env?.CONTEXT_OUTPUT_RESERVE, 8192)
+    );
+  const promptTokens = model.contextWindow - reserved;
+
+  return {
+    promptTokens,
+    // Search context never takes more than half of the prompt
+    searchTokens: Math.min(
+      toPositiveInt(env?.SEARCH_CONTEXT_TOKENS, 8000),
+      Math.floor(promptTokens / 2)
+    ),
+    strategy: CONTEXT_STRATEGIES.includes(env?.CONTEXT_STRATEGY)
+      ? env.CONTEXT_STRATEGY
+      : 'summarize',
+  };
+}
+
+/**
+ * Estimate the tokens one message takes in the prompt
+ */
+export function estimateMessageTokens(message: ChatMessage): number {
+  let tokens = MESSAGE_OVERHEAD + estimateTokens(message.content || '');
+  if (message.role === 'assistant') {
+    for (const call of message.tool_calls || []) {
+      tokens += estimateTokens(call.function.name + call.function.arguments);
+    }
+  }
+  return tokens;
+}
+
+function countTokens(messages: ChatMessage[]): number {
+  return messages.reduce(
+    (sum, message) => sum + estimateMessageTokens(message),
+    0
+  );
+}
+
+/**
+ * Shrink search results to fit `maxTokens`, dropping the lowest ranked ones
+ * when an even share would leave too little of each page
+ */
+export function fitSearchResults(
+  results: SearchResult[],
+  maxTokens: number
+): SearchResult[] {
+  const count = Math.min(
+    results.length,
+    Math.max(1, Math.floor(maxTokens / (MIN_RESULT_TOKENS + RESULT_OVERHEAD)))
+  );
+  const share = Math.floor(maxTokens / count) - RESULT_OVERHEAD;
+
+  return results.slice(0, count).map((result) => ({
+    ...result,
+    title: truncateToTokens(result.title, 30),
+    content: truncateToTokens(result.content, share),
+    ...(result.pageContent && {
+      pageContent: truncateToTokens(result.pageContent, share),
+    }),
+  }));
+}
+
+// Tool calls and their results only make sense together, so history is
+// trimmed a whole turn (a user message and everything after it) at a time
+function toTurns(messages: ChatMessage[]): ChatMessage[][] {
+  const turns: ChatMessage[][] = [];
+  for (const message of messages) {
+    if (message.role === 'user' || !turns.length) {
+      turns.push([message]);
+    } else {
+      turns[turns.length - 1].push(message);
+    }
+  }
+  return turns;
+}
+
+function summarize(
+  messages: ChatMessage[],
+  maxTokens: number
+): { note: ChatMessage | null; summarized: number } {
+  const lines: string[] = [];
+  let tokens = 0;
+
+  // Fill the note from the newest removed messages backwards
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const { role, content } = messages[i];
+    if ((role !== 'user' && role !== 'assistant') || !content) continue;
+
+    const line = `- ${role === 'user' ? 'User' : 'Assistant'}: ${truncateToTokens(
+      content.replace(/\s+/g, ' ').trim(),
+      SUMMARY_LINE_TOKENS
+    )}`;
+    const lineTokens = estimateTokens(line);
+    if (tokens + lineTokens > maxTokens) break;
+    lines.unshift(line);
+    tokens += lineTokens;
+  }
+
+  if (!lines.length) return { note: null, summarized: 0 };
+
+  return {
+    note: {
+      role: 'system',
+      content: `Summary of earlier messages in this conversation, shortened to fit the context window:\n${lines.join(
+        '\n'
+      )}`,
+    },
+    summarized: lines.length,
+  };
+}
+
+/**
+ * Fit a conversation into `budget.promptTokens`. System messages and the
+ * latest turn are always kept, older turns are removed oldest first and,
+ * with the `summarize` strategy, condensed into a short system note.
+ * `reservedTokens` covers prompt content sent outside the messages, such as tools.
+ */
+export function fitMessages(
+  messages: ChatMessage[],
+  budget: ContextBudget,
+  reservedTokens = 0
+): FittedMessages {
+  const available = budget.promptTokens - reservedTokens;
+  const total = countTokens(messages);
+
+  if (total <= available) {
+    return { messages, promptTokens: total, dropped: 0, summarized: 0 };
+  }
+
+  const system = messages.filter((message) => message.role === 'system');
+  const turns = toTurns(
+    messages.filter((message) => message.role !== 'system')
+  );
+  const latest = turns.pop() || [];
+
+  let used = countTokens(system) + countTokens(latest);
+  if (used > available) {
+    throw badRequest(
+      `This model's maximum context length is ${budget.promptTokens} tokens after reserving the completion, but the latest message and system prompt need about ${used + reservedTokens}. Shorten the message or lower max_tokens.`,
+      'messages',
+      'context_length_exceeded'
+    );
+  }
+
+  // Leave room for the summary note before keeping older turns
+  const summaryTokens =
+    budget.strategy === 'summarize'
+      ? Math.min(1024, Math.floor((available - used) / 4))
+      : 0;
+
+  const kept: ChatMessage[][] = [];
+  while (turns.length) {
+    const turnTokens = countTokens(turns[turns.length - 1]);
+    if (used + turnTokens > available - summaryTokens) break;
+    kept.unshift(turns.pop()!);
+    used += turnTokens;
+  }
+
+  const removed = turns.flat();
+  const { note, summarized } = summaryTokens
+    ? summarize(removed, summaryTokens)
+    : { note: null, summarized: 0 };
+
+  const fitted = [
+    ...system,
+    ...(note ? [note] : []),
+    ...kept.flat(),
+    ...latest,
+  ];
+
+  return {
+    messages: fitted,
+    promptTokens: countTokens(fitted),
+    dropped: removed.length - summarized,
+    summarized,
+  };
+}
@@ -0,0 +1,22 @@
+// Helpers for reading deployment settings from `env`, which are always strings
+
+export function toPositiveInt(value: unknown): number | undefined;
+export function toPositiveInt(value: unknown, fallback: number): number;
+export function toPositiveInt(value: unknown, fallback?: number) {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function toList(value: unknown): string[] {
+  return String(value || '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+// Unlike toPositiveInt, an explicit 0 is kept so it can switch a feature off
+export function toNonNegativeInt(value: unknown, fallback: number): number {
+  if (value === undefined || value === null || value === '') return fallback;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+}
@@ -0,0 +1,121 @@
+import { createResponse } from './http';
+import { encodeSSE } from './sse';
+
+export type ErrorType =
+  | 'invalid_request_error'
+  | 'authentication_error'
+  | 'not_found_error'
+  | 'rate_limit_error'
+  | 'server_error'
+  | 'service_unavailable_error';
+
+/**
+ * Error that maps onto an OpenAI-style `{ error: { message, type, param, code } }` body
+ */
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public type: ErrorType,
+    public code: string | null = null,
+    public param: string | null = null,
+    public headers: Record<string, string> = {}
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    // Keep `instanceof` working when compiled to ES5
+    Object.setPrototypeOf(this, ApiError.prototype);
+  }
+
+  toJSON() {
+    return {
+      error: {
+        message: this.message,
+        type: this.type,
+        param: this.param,
+        code: this.code,
+      },
+    };
+  }
+}
+
+export const badRequest = (message: string, param?: string, code?: string) =>
+  new ApiError(400, message, 'invalid_request_error', code, param);
+
+export const unauthorized = (message: string, code: string) =>
+  new ApiError(401, message, 'authentication_error', code);
+
+export const notFound = (message: string, code: string, param?: string) =>
+  new ApiError(404, message, 'not_found_error', code, param);
+
+export const methodNotAllowed = (method: string) =>
+  new ApiError(
+    405,
+    `Method ${method} is not allowed on this route.`,
+    'invalid_request_error',
+    'method_not_allowed'
+  );
+
+export const unprocessable = (message: string, code: string) =>
+  new ApiError(422, message, 'invalid_request_error', code);
+
+export const rateLimited = (message: string, retryAfter: number) =>
+  new ApiError(429, message, 'rate_limit_error', 'rate_limit_exceeded', null, {
+    'Retry-After': String(retryAfter),
+  });
+
+export const serverError = (message: string, code: string) =>
+  new ApiError(500, message, 'server_error', code);
+
+export const serviceUnavailable = (message: string, code: string) =>
+  new ApiError(503, message, 'service_unavailable_error', code);
+
+/**
+ * Wrap anything thrown into an ApiError. Unknown failures become 500s with
+ * a fixed message, their own text is for the server log only since it can
+ * carry configuration or upstream details.
+ */
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+  return serverError('Internal server error', 'internal_error');
+}
+
+/**
+ * Turn anything thrown into an OpenAI-style error response
+ */
+export function toErrorResponse(error: unknown): Response {
+  const apiError = toApiError(error);
+  if (apiError.status >= 500) {
+    console.error('Request failed:', error);
+  }
+  return createResponse(apiError.toJSON(), apiError.status, apiError.headers);
+}
+
+/**
+ * Pass a stream through, reporting a failure after streaming has started
+ * as an `error` event since the status code has already been sent
+ */
+export function catchStreamErrors(
+  stream: ReadableStream<Uint8Array>
+): ReadableStream<Uint8Array> {
+  const reader = stream.getReader();
+  return new ReadableStream({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        console.error('Stream failed:', error);
+        controller.enqueue(encodeSSE(toApiError(error).toJSON(), 'error'));
+        controller.close();
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
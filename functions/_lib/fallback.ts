@@ -0,0 +1,204 @@
+import { chatCompletions, type ChatCompletionParams } from './ai';
+import { toNonNegativeInt, toPositiveInt } from './env';
+import { ApiError, serviceUnavailable } from './errors';
+import { findModel, type ModelConfig } from './models';
+import { createStore, type KeyValueStore } from './storage';
+
+export interface CircuitBreakerOptions {
+  store: KeyValueStore;
+  // Consecutive failures that open the circuit
+  threshold: number;
+  // Seconds an open circuit skips the model before trying it again
+  cooldownSeconds: number;
+}
+
+export interface FallbackOptions {
+  // Retries per model for transient failures, on top of the first attempt
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  breaker: CircuitBreakerOptions;
+  // Whether a fallback model can take this request
+  canServe?: (model: ModelConfig) => boolean;
+  // Deployment settings, for fallback models and their providers
+  env?: any;
+}
+
+export interface ModelStream {
+  stream: ReadableStream<Uint8Array>;
+  // The model that actually answered
+  model: string;
+}
+
+interface BreakerState {
+  failures: number;
+  openUntil: number;
+}
+
+/**
+ * Resolve retry and circuit breaker settings for the deployment
+ */
+export function getFallbackOptions(env: any): FallbackOptions {
+  return {
+    retries: toNonNegativeInt(env?.MODEL_RETRIES, 2),
+    baseDelayMs: toPositiveInt(env?.MODEL_RETRY_BASE_MS, 250),
+    maxDelayMs: toPositiveInt(env?.MODEL_RETRY_MAX_MS, 4000),
+    breaker: {
+      store: createStore(env, 'breaker:'),
+      threshold: toPositiveInt(env?.CIRCUIT_BREAKER_THRESHOLD, 5),
+      cooldownSeconds: toPositiveInt(env?.CIRCUIT_BREAKER_COOLDOWN, 30),
+    },
+    env,
+  };
+}
+
+// Client errors other than rate limiting will fail the same way on a retry
+function isTransient(error: any): boolean {
+  // Provider errors already know whether another attempt could pass
+  if (typeof error?.retryable === 'boolean') return error.retryable;
+  const status = Number(error?.status || error?.statusCode);
+  return !(status >= 400 && status < 500 && status !== 408 && status !== 429);
+}
+
+// Exponential backoff with full jitter
+function backoffDelay(attempt: number, options: FallbackOptions): number {
+  const cap = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.floor(Math.random() * cap);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function isCircuitOpen(
+  breaker: CircuitBreakerOptions,
+  model: string
+): Promise<boolean> {
+  const state = await breaker.store.get<BreakerState>(model);
+  return (
+    !!state &&
+    state.failures >= breaker.threshold &&
+    state.openUntil > Date.now()
+  );
+}
+
+async function recordFailure(breaker: CircuitBreakerOptions, model: string) {
+  const state = (await breaker.store.get<BreakerState>(model)) || {
+    failures: 0,
+    openUntil: 0,
+  };
+  state.failures++;
+  // After the cooldown one request gets through, another failure reopens it
+  if (state.failures >= breaker.threshold) {
+    state.openUntil = Date.now() + breaker.cooldownSeconds * 1000;
+  }
+  await breaker.store.set(model, state, breaker.cooldownSeconds * 10);
+}
+
+async function recordSuccess(breaker: CircuitBreakerOptions, model: string) {
+  if (await breaker.store.get(model)) {
+    await breaker.store.delete(model);
+  }
+}
+
+/**
+ * Wait for the first chunk so a backend that fails before producing any
+ * output can still be retried, then replay it ahead of the rest
+ */
+async function awaitFirstChunk(
+  stream: ReadableStream<Uint8Array>
+): Promise<ReadableStream<Uint8Array>> {
+  const reader = stream.getReader();
+  const first = await reader.read();
+
+  return new ReadableStream({
+    start(controller) {
+      if (first.done) {
+        controller.close();
+      } else {
+        controller.enqueue(first.value);
+      }
+    },
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * Start a completion on `model`, retrying transient failures with backoff
+ * and moving down the model's fallback chain when it keeps failing.
+ * Models with an open circuit are skipped unless no other model is left.
+ */
+export async function openWithFallback(
+  params: ChatCompletionParams,
+  model: ModelConfig,
+  options: FallbackOptions
+): Promise<ModelStream> {
+  const chain = [
+    model,
+    ...(model.fallbacks || [])
+      .map((id) => findModel(id, options.env))
+      .filter(
+        (fallback): fallback is ModelConfig =>
+          !!fallback && (options.canServe?.(fallback) ?? true)
+      ),
+  ];
+
+  const candidates: ModelConfig[] = [];
+  for (const candidate of chain) {
+    if (!(await isCircuitOpen(options.breaker, candidate.id))) {
+      candidates.push(candidate);
+    }
+  }
+  if (!candidates.length) candidates.push(model);
+
+  const failures: string[] = [];
+  let lastError: unknown;
+  for (const candidate of candidates) {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const stream = await awaitFirstChunk(
+          await chatCompletions({ ...params, model: candidate.id }, options.env)
+        );
+        await recordSuccess(options.breaker, candidate.id);
+        if (candidate !== model) {
+          console.error(
+            `Model ${model.id} failed, answered by ${candidate.id}`
+          );
+        }
+        return { stream, model: candidate.id };
+      } catch (error: any) {
+        lastError = error;
+        const message = error?.message || String(error);
+        const transient = isTransient(error);
+        // A rejected request says nothing about the backend's health, so
+        // only outages and rate limits count towards opening the circuit
+        if (transient) {
+          await recordFailure(options.breaker, candidate.id);
+        }
+        if (!transient || attempt >= options.retries) {
+          failures.push(`${candidate.id}: ${message}`);
+          break;
+        }
+        await sleep(backoffDelay(attempt, options));
+      }
+    }
+  }
+
+  // A request the last upstream rejected is reported as it is, rather
+  // than as an outage
+  if (lastError instanceof ApiError && lastError.status < 500) {
+    throw lastError;
+  }
+  throw serviceUnavailable(
+    `Model ${model.id} is unavailable: ${failures.join('; ')}`,
+    'model_unavailable'
+  );
+}
@@ -0,0 +1,35 @@
+export const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers':
+    'Content-Type, Authorization, X-Request-Id, X-Api-Key, Anthropic-Version',
+};
+
+/**
+ * Create standardized response with CORS headers
+ */
+export function createResponse(
+  body: any,
+  status = 200,
+  extraHeaders = {}
+): Response {
+  const headers = {
+    'Content-Type': 'application/json',
+    ...CORS_HEADERS,
+    ...extraHeaders,
+  };
+
+  return new Response(JSON.stringify(body), { status, headers });
+}
+
+/**
+ * Handle OPTIONS request for CORS preflight
+ */
+export function handleOptionsRequest(): Response {
+  return new Response(null, {
+    headers: {
+      ...CORS_HEADERS,
+      'Access-Control-Max-Age': '86400',
+    },
+  });
+}
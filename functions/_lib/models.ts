@@ -0,0 +1,172 @@
+import { z } from 'zod';
+import { SAMPLING_PARAMS, type SamplingParam } from './sampling';
+
+// Model registry shared by every function route
+export interface ModelConfig {
+  id: string;
+  name: string;
+  family: string;
+  contextWindow: number;
+  maxOutputTokens: number;
+  reasoning: boolean;
+  // Whether the model accepts `tools` for function calling
+  tools: boolean;
+  // Sampling parameters the model rejects or silently ignores
+  unsupportedParams?: SamplingParam[];
+  // Models tried in order when this one is overloaded or unavailable
+  fallbacks?: string[];
+  // Upstream that serves the model, `edgeone` (the AI binding) by default
+  // or an OpenAI-compatible provider configured in env
+  provider?: string;
+  // Model name sent upstream when it differs from `id`
+  upstreamModel?: string;
+  default?: boolean;
+}
+
+export const DEFAULT_PROVIDER = 'edgeone';
+
+// Models added by the deployment through EXTRA_MODELS
+const extraModelSchema = z.object({
+  id: z.string().min(1),
+  provider: z.string().min(1),
+  upstream_model: z.string().optional(),
+  name: z.string().optional(),
+  family: z.string().optional(),
+  context_window: z.number().int().positive().default(32768),
+  max_output_tokens: z.number().int().positive().default(8192),
+  reasoning: z.boolean().default(false),
+  tools: z.boolean().default(false),
+  unsupported_params: z.array(z.enum(SAMPLING_PARAMS)).optional(),
+  fallbacks: z.array(z.string()).optional(),
+});
+
+export const MODELS: ModelConfig[] = [
+  {
+    id: '@tx/deepseek-ai/deepseek-r1-distill-qwen-32b',
+    name: 'DeepSeek R1 32B',
+    family: 'DeepSeek R1',
+    contextWindow: 32768,
+    maxOutputTokens: 16384,
+    reasoning: true,
+    tools: false,
+    unsupportedParams: ['response_format'],
+    default: true,
+  },
+  {
+    id: '@tx/deepseek-ai/deepseek-r1-0528',
+    name: 'DeepSeek R1 0528',
+    family: 'DeepSeek R1',
+    contextWindow: 65536,
+    maxOutputTokens: 32768,
+    reasoning: true,
+    tools: true,
+    unsupportedParams: [
+      'presence_penalty',
+      'frequency_penalty',
+      'response_format',
+    ],
+    fallbacks: ['@tx/deepseek-ai/deepseek-r1-distill-qwen-32b'],
+  },
+  {
+    id: '@tx/deepseek-ai/deepseek-v3-0324',
+    name: 'DeepSeek V3 0324',
+    family: 'DeepSeek V3',
+    contextWindow: 65536,
+    maxOutputTokens: 8192,
+    reasoning: false,
+    tools: true,
+    fallbacks: ['@tx/deepseek-ai/deepseek-v3.2'],
+  },
+  {
+    id: '@tx/deepseek-ai/deepseek-v3.2',
+    name: 'DeepSeek V3.2',
+    family: 'DeepSeek V3',
+    contextWindow: 131072,
+    maxOutputTokens: 8192,
+    reasoning: false,
+    tools: true,
+    fallbacks: ['@tx/deepseek-ai/deepseek-v3-0324'],
+  },
+];
+
+/**
+ * Parse EXTRA_MODELS, a JSON list of models served by other providers
+ */
+function parseExtraModels(value: unknown): ModelConfig[] {
+  if (!value) return [];
+  let parsed: unknown;
+  try {
+    parsed = typeof value === 'string' ? JSON.parse(value) : value;
+  } catch {
+    throw new Error('EXTRA_MODELS must be valid JSON');
+  }
+  const result = z.array(extraModelSchema).safeParse(parsed);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(
+      `Invalid EXTRA_MODELS at ${issue.path.join('.')}: ${issue.message}`
+    );
+  }
+  return result.data.map((model) => ({
+    id: model.id,
+    name: model.name || model.id,
+    family: model.family || model.provider,
+    contextWindow: model.context_window,
+    maxOutputTokens: model.max_output_tokens,
+    reasoning: model.reasoning,
+    tools: model.tools,
+    unsupportedParams: model.unsupported_params,
+    fallbacks: model.fallbacks,
+    provider: model.provider,
+    upstreamModel: model.upstream_model,
+  }));
+}
+
+/**
+ * The built-in models followed by the deployment's EXTRA_MODELS, which
+ * replace built-in models with the same id
+ */
+export function getModels(env?: any): ModelConfig[] {
+  const extra = parseExtraModels(env?.EXTRA_MODELS);
+  if (!extra.length) return MODELS;
+  const ids = new Set(extra.map((model) => model.id));
+  return [...MODELS.filter((model) => !ids.has(model.id)), ...extra];
+}
+
+/**
+ * Look up a model by id
+ */
+export function findModel(id: string, env?: any): ModelConfig | undefined {
+  return getModels(env).find((model) => model.id === id);
+}
+
+/**
+ * The model used when a request does not name one
+ */
+export function getDefaultModel(): ModelConfig {
+  return MODELS.find((model) => model.default) || MODELS[0];
+}
+
+/**
+ * Serialize the registry as an OpenAI-compatible model list
+ */
+export function toModelList(env?: any) {
+  return {
+    object: 'list',
+    data: getModels(env).map((model) => ({
+      id: model.id,
+      object: 'model',
+      created: 0,
+      owned_by: model.id.split('/')[1] || model.provider || DEFAULT_PROVIDER,
+      name: model.name,
+      family: model.family,
+      context_window: model.contextWindow,
+      max_output_tokens: model.maxOutputTokens,
+      reasoning: model.reasoning,
+      tools: model.tools,
+      fallbacks: model.fallbacks || [],
+      provider: model.provider || DEFAULT_PROVIDER,
+      default: !!model.default,
+    })),
+  };
+}
@@ -0,0 +1,533 @@
+import type { ChatMessage } from '../chat';
+import type { ChatCompletion } from '../completion';
+import { toList, toPositiveInt } from '../env';
+import { badRequest } from '../errors';
+import { findModel } from '../models';
+import { encodeSSE, readSSEEvents } from '../sse';
+import { classifyText, type ClassifierOptions } from './classifier';
+import {
+  PII_KINDS,
+  findBlocked,
+  findPii,
+  findPiiRanges,
+  redactPii,
+  type BlockMatch,
+  type BlockRules,
+  type PiiKind,
+} from './rules';
+
+export { PII_KINDS, findBlocked, findPii, redactPii } from './rules';
+export type { BlockMatch, BlockRules, PiiKind } from './rules';
+
+// What happens to PII found in a request or an answer
+export type PiiAction = 'redact' | 'block';
+
+export const PII_ACTIONS: PiiAction[] = ['redact', 'block'];
+
+const DEFAULT_CLASSIFIER_TIMEOUT_MS = 10000;
+
+// Streamed text held back so a match cut across chunks is still found
+const MIN_HOLD_LENGTH = 64;
+
+export const CONTENT_FILTER_MESSAGE =
+  'The request was blocked by the content policy.';
+
+export interface ModerationConfig {
+  rules: BlockRules;
+  pii: PiiKind[];
+  piiAction: PiiAction;
+  classifier: ClassifierOptions | null;
+}
+
+export interface ModerationDecision {
+  stage: 'input' | 'output';
+  action: 'allow' | 'redact' | 'block';
+  // The rule that blocked, such as `keyword:foo`, `pii:email` or `classifier`
+  rule?: string;
+  redacted?: Partial<Record<PiiKind, number>>;
+  classifier?: 'allow' | 'block' | 'error';
+}
+
+export interface ModerationContext {
+  requestId: string;
+}
+
+function parsePatterns(value: unknown): RegExp[] {
+  if (!value) return [];
+  let parsed: unknown;
+  try {
+    parsed = typeof value === 'string' ? JSON.parse(value) : value;
+  } catch {
+    throw new Error('MODERATION_BLOCK_PATTERNS must be valid JSON');
+  }
+  if (
+    !Array.isArray(parsed) ||
+    parsed.some((item) => typeof item !== 'string')
+  ) {
+    throw new Error(
+      'MODERATION_BLOCK_PATTERNS must be an array of regular expressions'
+    );
+  }
+  return parsed.map((source: string) => {
+    try {
+      return new RegExp(source, 'i');
+    } catch {
+      throw new Error(`Invalid MODERATION_BLOCK_PATTERNS entry: ${source}`);
+    }
+  });
+}
+
+/**
+ * Read the moderation settings, null when no check is configured
+ */
+export function getModerationConfig(env: any): ModerationConfig | null {
+  const keywords = toList(env?.MODERATION_BLOCKLIST);
+  const patterns = parsePatterns(env?.MODERATION_BLOCK_PATTERNS);
+
+  const pii = toList(env?.MODERATION_PII) as PiiKind[];
+  const unknownKind = pii.find((kind) => !PII_KINDS.includes(kind));
+  if (unknownKind) {
+    throw new Error(
+      `Unknown MODERATION_PII detector: ${unknownKind}. Use ${PII_KINDS.join(', ')}.`
+    );
+  }
+
+  const piiAction = (env?.MODERATION_PII_ACTION || 'redact') as PiiAction;
+  if (!PII_ACTIONS.includes(piiAction)) {
+    throw new Error(`Unknown MODERATION_PII_ACTION: ${piiAction}`);
+  }
+
+  const model = env?.MODERATION_MODEL;
+  if (model && !findModel(model, env)) {
+    throw new Error(`Unknown MODERATION_MODEL: ${model}`);
+  }
+
+  if (!keywords.length && !patterns.length && !pii.length && !model) {
+    return null;
+  }
+
+  return {
+    rules: { keywords, patterns },
+    pii,
+    piiAction,
+    classifier: model
+      ? {
+          model,
+          policy: env?.MODERATION_POLICY,
+          timeoutMs: toPositiveInt(
+            env?.MODERATION_TIMEOUT_MS,
+            DEFAULT_CLASSIFIER_TIMEOUT_MS
+          ),
+          env,
+        }
+      : null,
+  };
+}
+
+/**
+ * Write one moderation decision as a JSON log line. Matched text is never
+ * logged, only the rule and redaction counts.
+ */
+export function logDecision(
+  context: ModerationContext,
+  decision: ModerationDecision
+) {
+  console.log(
+    JSON.stringify({
+      level: decision.action === 'block' ? 'warn' : 'info',
+      msg: 'moderation',
+      request_id: context.requestId,
+      ...decision,
+    })
+  );
+}
+
+interface CheckedText {
+  // Text with PII redacted, cut off before the blocked match if any
+  text: string;
+  blocked: string | null;
+}
+
+function checkText(
+  text: string,
+  config: ModerationConfig,
+  counts: Partial<Record<PiiKind, number>>
+): CheckedText {
+  const matches = [
+    findBlocked(text, config.rules),
+    config.piiAction === 'block' ? findPii(text, config.pii) : null,
+  ].filter((match): match is BlockMatch => !!match);
+  const blocked = matches.sort((a, b) => a.index - b.index)[0];
+
+  const kept = blocked ? text.slice(0, blocked.index) : text;
+  return {
+    text:
+      config.piiAction === 'redact'
+        ? redactPii(kept, config.pii, counts)
+        : kept,
+    blocked: blocked?.rule || null,
+  };
+}
+
+function toDecision(
+  stage: ModerationDecision['stage'],
+  blocked: string | null,
+  counts: Partial<Record<PiiKind, number>>,
+  classifier?: ModerationDecision['classifier']
+): ModerationDecision {
+  const redacted = Object.keys(counts).length > 0;
+  return {
+    stage,
+    action: blocked ? 'block' : redacted ? 'redact' : 'allow',
+    ...(blocked && { rule: blocked }),
+    ...(redacted && { redacted: counts }),
+    ...(classifier && { classifier }),
+  };
+}
+
+// Classifier failures let the text through, the decision records them
+async function runClassifier(
+  text: string,
+  config: ModerationConfig
+): Promise<ModerationDecision['classifier']> {
+  if (!config.classifier || !text.trim()) return undefined;
+  try {
+    return (await classifyText(text, config.classifier)) ? 'block' : 'allow';
+  } catch (error) {
+    console.error('Moderation classifier failed:', error);
+    return 'error';
+  }
+}
+
+/**
+ * Check the request messages before the model call. Blocked requests throw
+ * a `content_filter` error, PII is redacted in place. Earlier assistant
+ * replies are not checked, they were checked as output.
+ */
+export async function moderateMessages(
+  messages: ChatMessage[],
+  config: ModerationConfig,
+  context: ModerationContext
+): Promise<ModerationDecision> {
+  const counts: Partial<Record<PiiKind, number>> = {};
+  let blocked: string | null = null;
+
+  for (const message of messages) {
+    if (message.role === 'assistant' || !message.content) continue;
+    const checked = checkText(message.content, config, counts);
+    if (checked.blocked) {
+      blocked = checked.blocked;
+      break;
+    }
+    message.content = checked.text;
+  }
+
+  // The classifier only sees the latest user message, earlier ones were
+  // classified when they were sent
+  const latest = [...messages].reverse().find((m) => m.role === 'user');
+  const classifier = blocked
+    ? undefined
+    : await runClassifier(latest?.content || '', config);
+  if (classifier === 'block') {
+    blocked = 'classifier';
+  }
+
+  const decision = toDecision('input', blocked, counts, classifier);
+  logDecision(context, decision);
+  if (blocked) {
+    throw badRequest(CONTENT_FILTER_MESSAGE, 'messages', 'content_filter');
+  }
+  return decision;
+}
+
+/**
+ * Check a finished completion. A blocked answer is cut off before the
+ * match and ends with `finish_reason: 'content_filter'`.
+ */
+export async function moderateCompletion(
+  completion: ChatCompletion,
+  config: ModerationConfig,
+  context: ModerationContext
+): Promise<ModerationDecision> {
+  const choice = completion.choices[0];
+  const { message } = choice;
+  const counts: Partial<Record<PiiKind, number>> = {};
+  let blocked: string | null = null;
+
+  if (message.reasoning_content) {
+    const checked = checkText(message.reasoning_content, config, counts);
+    message.reasoning_content = checked.text;
+    blocked = checked.blocked;
+  }
+  if (message.content) {
+    const checked = blocked
+      ? { text: '', blocked }
+      : checkText(message.content, config, counts);
+    message.content = checked.text;
+    blocked = checked.blocked;
+  }
+
+  const classifier = blocked
+    ? undefined
+    : await runClassifier(message.content || '', config);
+  if (classifier === 'block') {
+    blocked = 'classifier';
+    message.content = '';
+  }
+
+  if (blocked) {
+    choice.finish_reason = 'content_filter';
+    delete message.tool_calls;
+  }
+
+  const decision = toDecision('output', blocked, counts, classifier);
+  logDecision(context, decision);
+  return decision;
+}
+
+/**
+ * Moderate streamed text. The last few characters are held back so matches
+ * cut across chunks are found before they are sent.
+ */
+function createStreamFilter(
+  config: ModerationConfig,
+  counts: Partial<Record<PiiKind, number>>
+) {
+  const hold = Math.max(
+    MIN_HOLD_LENGTH,
+    ...config.rules.keywords.map((keyword) => keyword.length)
+  );
+  let pending = '';
+
+  return {
+    push(text: string): CheckedText {
+      const raw = pending + text;
+      // Redactions are counted once the text is released
+      const found: Partial<Record<PiiKind, number>> = {};
+      const checked = checkText(raw, config, found);
+      if (checked.blocked) {
+        pending = '';
+        for (const kind of Object.keys(found) as PiiKind[]) {
+          counts[kind] = (counts[kind] || 0) + found[kind]!;
+        }
+        return checked;
+      }
+
+      let cut = Math.max(0, raw.length - hold);
+      // PII reaching into the held back text may go on in the next chunk,
+      // so it is held back whole
+      const ranges = findPiiRanges(raw, config.pii);
+      for (let moved = true; moved;) {
+        moved = false;
+        for (const [start, end] of ranges) {
+          if (start < cut && end >= cut) {
+            cut = start;
+            moved = true;
+          }
+        }
+      }
+      // Do not split a surrogate pair
+      const code = raw.charCodeAt(cut - 1);
+      if (code >= 0xd800 && code <= 0xdbff) cut--;
+
+      pending = raw.slice(cut);
+      const released = raw.slice(0, cut);
+      return {
+        text:
+          config.piiAction === 'redact'
+            ? redactPii(released, config.pii, counts)
+            : released,
+        blocked: null,
+      };
+    },
+    flush(): string {
+      const rest = pending;
+      pending = '';
+      return config.piiAction === 'redact'
+        ? redactPii(rest, config.pii, counts)
+        : rest;
+    },
+  };
+}
+
+const STREAMED_FIELDS = ['reasoning_content', 'content'] as const;
+
+/**
+ * Run the moderation checks over a completion chunk stream. PII is redacted
+ * as it streams, a blocked answer stops with a
+ * `finish_reason: 'content_filter'` chunk. The finishing chunk is held until
+ * the stream ends, so text that arrives after it is still checked and the
+ * classifier sees the whole answer. It can only flag an answer the client
+ * has mostly seen already.
+ */
+export function moderateStream(
+  stream: ReadableStream<Uint8Array>,
+  config: ModerationConfig,
+  context: ModerationContext
+): ReadableStream<Uint8Array> {
+  const abort = new AbortController();
+  const events = readSSEEvents(stream, abort.signal);
+  const counts: Partial<Record<PiiKind, number>> = {};
+  const filters = {
+    reasoning_content: createStreamFilter(config, counts),
+    content: createStreamFilter(config, counts),
+  };
+  let blocked: string | null = null;
+  let classifier: ModerationDecision['classifier'];
+  let output = '';
+  let last: any = null;
+  // The backend's finishing chunk and what followed it, such as usage
+  let held: any = null;
+  const trailing: Uint8Array[] = [];
+  let finalized = false;
+  let finished = false;
+
+  const finish = () => {
+    if (finished) return;
+    finished = true;
+    logDecision(context, toDecision('output', blocked, counts, classifier));
+  };
+
+  // Text still held back, checked once more at the end of the stream
+  const flushDelta = () => {
+    const delta: Record<string, string> = {};
+    for (const field of STREAMED_FIELDS) {
+      const rest = filters[field].flush();
+      if (rest) delta[field] = rest;
+    }
+    return delta;
+  };
+
+  // Rewrite one chunk in place, false when nothing is left to send
+  const moderateChunk = (chunk: any): boolean => {
+    const choice = chunk.choices?.[0];
+    if (!choice) return true;
+    // Usage chunks still go out after a block, the rest of the answer not
+    if (blocked) return false;
+
+    last = chunk;
+    const delta = choice.delta || {};
+    for (const field of STREAMED_FIELDS) {
+      if (typeof delta[field] !== 'string') continue;
+      if (blocked) {
+        // Blocked reasoning ends the answer as well
+        delete delta[field];
+        continue;
+      }
+      const checked = filters[field].push(delta[field]);
+      delta[field] = checked.text || undefined;
+      blocked = checked.blocked;
+    }
+
+    if (blocked) {
+      delete delta.tool_calls;
+      choice.delta = delta;
+      choice.finish_reason = 'content_filter';
+      finish();
+      return true;
+    }
+
+    // The finish reason goes out from `finalize`, the delta now
+    if (choice.finish_reason) {
+      held = {
+        ...chunk,
+        choices: [{ ...choice, delta: {} }],
+      };
+      choice.finish_reason = null;
+    }
+
+    output += delta.content || '';
+    choice.delta = delta;
+    return Object.values(delta).some((value) => value !== undefined);
+  };
+
+  // Check the held back text and the whole answer, then send the finishing
+  // chunk and whatever the backend sent after it
+  const finalize = async (
+    controller: ReadableStreamDefaultController<Uint8Array>
+  ) => {
+    if (finalized) return;
+    finalized = true;
+
+    if (!blocked) {
+      const rest = flushDelta();
+      output += rest.content || '';
+      classifier = await runClassifier(output, config);
+      if (classifier === 'block') {
+        blocked = 'classifier';
+        delete rest.content;
+      }
+
+      const base = held || last;
+      if (base && (held || blocked || Object.keys(rest).length)) {
+        const choice = base.choices[0];
+        controller.enqueue(
+          encodeSSE({
+            ...base,
+            choices: [
+              {
+                ...choice,
+                delta: rest,
+                finish_reason: blocked
+                  ? 'content_filter'
+                  : held
+                    ? choice.finish_reason
+                    : null,
+              },
+            ],
+          })
+        );
+      }
+    }
+
+    trailing.forEach((bytes) => controller.enqueue(bytes));
+    finish();
+  };
+
+  return new ReadableStream({
+    async pull(controller) {
+      // Keep reading until something is sent, the reader waits otherwise
+      for (;;) {
+        const { done, value } = await events.next();
+        if (done) {
+          await finalize(controller);
+          controller.close();
+          return;
+        }
+
+        const { event, data } = value;
+        if (event) {
+          controller.enqueue(encodeSSE(data, event));
+          return;
+        }
+
+        if (data === '[DONE]') {
+          await finalize(controller);
+          controller.enqueue(encodeSSE('[DONE]'));
+          return;
+        }
+
+        let chunk: any;
+        try {
+          chunk = JSON.parse(data);
+        } catch {
+          controller.enqueue(encodeSSE(data));
+          return;
+        }
+        if (held && !chunk.choices?.length) {
+          trailing.push(encodeSSE(chunk));
+          continue;
+        }
+        if (moderateChunk(chunk)) {
+          controller.enqueue(encodeSSE(chunk));
+          return;
+        }
+      }
+    },
+    async cancel(reason) {
+      finish();
+      abort.abort(reason);
+      await events.return(undefined);
+    },
+  });
+}
@@ -0,0 +1,156 @@
+// Blocklist and PII rules, run over request messages and model output
+
+export type PiiKind = 'email' | 'phone' | 'id_number';
+
+export const PII_KINDS: PiiKind[] = ['email', 'phone', 'id_number'];
+
+export interface BlockRules {
+  keywords: string[];
+  patterns: RegExp[];
+}
+
+export interface BlockMatch {
+  // Which rule matched, such as `keyword:foo` or `pattern:2`
+  rule: string;
+  index: number;
+}
+
+const PII_PLACEHOLDERS: Record<PiiKind, string> = {
+  email: '[REDACTED_EMAIL]',
+  phone: '[REDACTED_PHONE]',
+  id_number: '[REDACTED_ID]',
+};
+
+interface PiiDetector {
+  kind: PiiKind;
+  pattern: RegExp;
+  valid?: (match: string) => boolean;
+}
+
+const CN_ID_WEIGHTS = [7, 9, 10, 5, 8, 4, 2, 1, 6, 3, 7, 9, 10, 5, 8, 4, 2];
+const CN_ID_CHECK_CODES = '10X98765432';
+
+// The last character is a checksum, which keeps most other 18 digit
+// numbers from being taken for identity numbers
+function isValidChineseId(id: string): boolean {
+  const sum = CN_ID_WEIGHTS.reduce(
+    (total, weight, i) => total + weight * Number(id[i]),
+    0
+  );
+  return CN_ID_CHECK_CODES[sum % 11] === id[17].toUpperCase();
+}
+
+// Identity numbers go first, so their digits are not taken for phone numbers
+const PII_DETECTORS: PiiDetector[] = [
+  // Chinese resident identity numbers and US social security numbers
+  {
+    kind: 'id_number',
+    pattern:
+      /\b[1-9]\d{5}(19|20)\d{2}(0[1-9]|1[0-2])(0[1-9]|[12]\d|3[01])\d{3}[\dXx]\b/g,
+    valid: isValidChineseId,
+  },
+  { kind: 'id_number', pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
+  {
+    kind: 'email',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g,
+  },
+  // Chinese mobile numbers, international numbers written with a leading +
+  // and North American (555) 123-4567 style numbers
+  { kind: 'phone', pattern: /(\+?86[\s-]?)?\b1[3-9]\d{9}\b/g },
+  {
+    kind: 'phone',
+    pattern: /\+\d{1,3}[\s.-]?(\(\d{1,4}\)|\d{1,4})([\s.-]?\d{2,4}){2,4}\b/g,
+  },
+  { kind: 'phone', pattern: /(\(\d{3}\)\s?|\b\d{3}[.-])\d{3}[.-]\d{4}\b/g },
+];
+
+/**
+ * Replace PII of the given kinds with placeholders, counting what was
+ * replaced into `counts`
+ */
+export function redactPii(
+  text: string,
+  kinds: PiiKind[],
+  counts: Partial<Record<PiiKind, number>> = {}
+): string {
+  return PII_DETECTORS.filter((detector) =>
+    kinds.includes(detector.kind)
+  ).reduce(
+    (result, { kind, pattern, valid }) =>
+      result.replace(pattern, (match) => {
+        if (valid && !valid(match)) return match;
+        counts[kind] = (counts[kind] || 0) + 1;
+        return PII_PLACEHOLDERS[kind];
+      }),
+    text
+  );
+}
+
+/**
+ * First PII of the given kinds in `text`, for deployments that block PII
+ * instead of redacting it
+ */
+export function findPii(text: string, kinds: PiiKind[]): BlockMatch | null {
+  let match: BlockMatch | null = null;
+  for (const { kind, pattern, valid } of PII_DETECTORS) {
+    if (!kinds.includes(kind)) continue;
+    pattern.lastIndex = 0;
+    let found: RegExpExecArray | null;
+    while ((found = pattern.exec(text))) {
+      if (!valid || valid(found[0])) {
+        if (!match || found.index < match.index) {
+          match = { rule: `pii:${kind}`, index: found.index };
+        }
+        break;
+      }
+    }
+  }
+  return match;
+}
+
+/**
+ * Where PII of the given kinds appears in `text`, as [start, end) ranges
+ */
+export function findPiiRanges(text: string, kinds: PiiKind[]): number[][] {
+  const ranges: number[][] = [];
+  for (const { kind, pattern, valid } of PII_DETECTORS) {
+    if (!kinds.includes(kind)) continue;
+    pattern.lastIndex = 0;
+    let found: RegExpExecArray | null;
+    while ((found = pattern.exec(text))) {
+      if (!valid || valid(found[0])) {
+        ranges.push([found.index, found.index + found[0].length]);
+      }
+    }
+  }
+  return ranges;
+}
+
+/**
+ * First blocklisted keyword or pattern in `text`, keywords match without
+ * regard to case
+ */
+export function findBlocked(
+  text: string,
+  rules: BlockRules
+): BlockMatch | null {
+  let match: BlockMatch | null = null;
+  const lower = text.toLowerCase();
+
+  for (const keyword of rules.keywords) {
+    const index = lower.indexOf(keyword.toLowerCase());
+    if (index !== -1 && (!match || index < match.index)) {
+      match = { rule: `keyword:${keyword}`, index };
+    }
+  }
+
+  rules.patterns.forEach((pattern, i) => {
+    pattern.lastIndex = 0;
+    const found = pattern.exec(text);
+    if (found && (!match || found.index < match.index)) {
+      match = { rule: `pattern:${i}`, index: found.index };
+    }
+  });
+
+  return match;
+}
@@ -0,0 +1,258 @@
+import { badRequest } from '../errors';
+import { UNTRUSTED_NOTE, type SearchResult } from '../search';
+import {
+  BUILTIN_PROFILES,
+  type PromptProfiles,
+  type PromptTemplates,
+} from './templates';
+
+export type { PromptProfiles, PromptTemplates } from './templates';
+
+const DEFAULT_PROFILE = 'default';
+const DEFAULT_LOCALE = 'en';
+const DEFAULT_TIMEZONE = 'UTC';
+
+// Loose BCP 47 check, enough to keep odd values out of Intl and the logs
+const LOCALE_PATTERN = /^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/;
+
+export interface PromptRequestOptions {
+  profile?: string;
+  locale?: string;
+  timezone?: string;
+  // The request's Accept-Language header, used when no locale is given
+  acceptLanguage?: string | null;
+}
+
+export interface PromptOptions {
+  profile: string;
+  locale: string;
+  timezone: string;
+  templates: PromptTemplates;
+}
+
+/**
+ * Parse deployment overrides from PROMPT_TEMPLATES, a JSON object of
+ * profiles, each mapping locales to templates
+ */
+function parseOverrides(value: unknown): PromptProfiles {
+  if (!value) return {};
+  let parsed: unknown;
+  try {
+    parsed = typeof value === 'string' ? JSON.parse(value) : value;
+  } catch {
+    throw new Error('PROMPT_TEMPLATES must be valid JSON');
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('PROMPT_TEMPLATES must be an object of prompt profiles');
+  }
+  return parsed as PromptProfiles;
+}
+
+// Overrides replace single templates, so a deployment can change the
+// search prompt of a built-in profile and keep the rest
+function getProfiles(env: any): PromptProfiles {
+  const profiles: PromptProfiles = {};
+  for (const [name, locales] of Object.entries(BUILTIN_PROFILES)) {
+    profiles[name] = { ...locales };
+  }
+  for (const [name, locales] of Object.entries(
+    parseOverrides(env?.PROMPT_TEMPLATES)
+  )) {
+    profiles[name] = { ...profiles[name] };
+    for (const [locale, templates] of Object.entries(locales || {})) {
+      profiles[name][locale] = { ...profiles[name][locale], ...templates };
+    }
+  }
+  return profiles;
+}
+
+/**
+ * Highest weighted language in an Accept-Language header
+ */
+export function parseAcceptLanguage(header?: string | null): string | null {
+  const languages = String(header || '')
+    .split(',')
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(';');
+      const q = params.find((param) => param.trim().startsWith('q='));
+      return { tag: tag.trim(), q: q ? Number(q.trim().slice(2)) : 1 };
+    })
+    .filter(({ tag, q }) => LOCALE_PATTERN.test(tag) && q > 0)
+    .sort((a, b) => b.q - a.q);
+  return languages[0]?.tag || null;
+}
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Exact locale first, then its language, then English
+function pickTemplates(
+  locales: Record<string, PromptTemplates>,
+  locale: string
+): PromptTemplates {
+  const language = locale.split('-')[0].toLowerCase();
+  const match = Object.keys(locales).find(
+    (key) => key.toLowerCase() === locale.toLowerCase()
+  );
+  return (
+    (match && locales[match]) ||
+    locales[language] ||
+    locales[DEFAULT_LOCALE] ||
+    Object.values(locales)[0] ||
+    {}
+  );
+}
+
+/**
+ * Resolve the prompt profile, locale and timezone for one request.
+ * Request fields win over the Accept-Language header and deployment defaults.
+ */
+export function resolvePromptOptions(
+  env: any,
+  options: PromptRequestOptions = {}
+): PromptOptions {
+  const profiles = getProfiles(env);
+
+  const profile = options.profile || env?.PROMPT_PROFILE || DEFAULT_PROFILE;
+  if (!profiles[profile]) {
+    if (!options.profile) {
+      throw new Error(`Unknown PROMPT_PROFILE: ${profile}`);
+    }
+    throw badRequest(
+      `Unknown prompt_profile: ${profile}. Available profiles: ${Object.keys(
+        profiles
+      ).join(', ')}`,
+      'prompt_profile',
+      'invalid_value'
+    );
+  }
+
+  if (options.locale && !LOCALE_PATTERN.test(options.locale)) {
+    throw badRequest(
+      `Invalid locale: ${options.locale}. Use a language tag such as en-US or zh-CN.`,
+      'locale',
+      'invalid_value'
+    );
+  }
+  const locale =
+    options.locale ||
+    parseAcceptLanguage(options.acceptLanguage) ||
+    env?.PROMPT_LOCALE ||
+    DEFAULT_LOCALE;
+
+  if (options.timezone && !isValidTimezone(options.timezone)) {
+    throw badRequest(
+      `Invalid timezone: ${options.timezone}. Use an IANA time zone such as Asia/Shanghai.`,
+      'timezone',
+      'invalid_value'
+    );
+  }
+  const timezone =
+    options.timezone ||
+    (env?.PROMPT_TIMEZONE && isValidTimezone(env.PROMPT_TIMEZONE)
+      ? env.PROMPT_TIMEZONE
+      : DEFAULT_TIMEZONE);
+
+  return {
+    profile,
+    locale,
+    timezone,
+    templates: pickTemplates(profiles[profile], locale),
+  };
+}
+
+/**
+ * Fill {{variable}} placeholders. Unknown placeholders are left as they are,
+ * so a typo in an override shows up in the prompt instead of vanishing.
+ */
+export function renderTemplate(
+  template: string,
+  variables: Record<string, string | number>
+): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name) =>
+    name in variables ? String(variables[name]) : placeholder
+  );
+}
+
+function formatDate(locale: string, timezone: string): string {
+  const date = new Date();
+  try {
+    return date.toLocaleDateString(locale, {
+      timeZone: timezone,
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      weekday: 'long',
+    });
+  } catch {
+    return date.toISOString().slice(0, 10);
+  }
+}
+
+// Variables every template can use
+function baseVariables(options: PromptOptions): Record<string, string> {
+  return {
+    date: formatDate(options.locale, options.timezone),
+    timezone: options.timezone,
+    locale: options.locale,
+  };
+}
+
+/**
+ * Format search results into a readable context string
+ */
+export function formatSearchResults(results: SearchResult[]): string {
+  return results
+    .map((result, i) => {
+      const index = i + 1;
+      const title = result.title || 'No title';
+      const url = result.url || 'No URL';
+      const body = result.pageContent
+        ? `Content: ${result.pageContent}`
+        : `Snippet: ${result.content || 'No snippet'}`;
+
+      // Flagged pages stay in the context, but the model is told why they
+      // should be read as quotes
+      const note = result.untrusted ? `${UNTRUSTED_NOTE}\n` : '';
+
+      return `
+[webpage ${index} begin]
+Title: ${title}
+Url: ${url}
+${note}${body}
+[webpage ${index} end]
+`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Render the profile's system prompt, null when it has none
+ */
+export function renderSystemPrompt(options: PromptOptions): string | null {
+  const { system } = options.templates;
+  return system ? renderTemplate(system, baseVariables(options)) : null;
+}
+
+/**
+ * Render the search context sent ahead of the user's latest message
+ */
+export function renderSearchPrompt(
+  options: PromptOptions,
+  results: SearchResult[]
+): string {
+  const template =
+    options.templates.search ||
+    pickTemplates(BUILTIN_PROFILES[DEFAULT_PROFILE], options.locale).search!;
+  return renderTemplate(template, {
+    ...baseVariables(options),
+    result_count: results.length,
+    search_results: formatSearchResults(results),
+  });
+}
@@ -0,0 +1,33 @@
+import type { ChatProvider } from './types';
+import { UpstreamError } from './types';
+
+/**
+ * Models hosted on EdgeOne, called through the global `AI` binding
+ */
+export function createBindingProvider(): ChatProvider {
+  return {
+    name: 'edgeone',
+    async chatCompletions(params) {
+      // @ts-ignore-next-line
+      if (typeof AI === 'undefined') {
+        throw new UpstreamError('edgeone', 'The AI binding is not available', {
+          retryable: false,
+          code: 'provider_not_configured',
+        });
+      }
+
+      try {
+        // @ts-ignore-next-line
+        return await AI.chatCompletions({
+          ...params,
+          stream: true,
+          stream_options: { include_usage: true },
+        });
+      } catch (error: any) {
+        throw new UpstreamError('edgeone', error?.message || String(error), {
+          status: Number(error?.status || error?.statusCode) || undefined,
+        });
+      }
+    },
+  };
+}
@@ -0,0 +1,70 @@
+import { toPositiveInt } from '../env';
+import { DEFAULT_PROVIDER, type ModelConfig } from '../models';
+import { createBindingProvider } from './binding';
+import { createOpenAIProvider } from './openai';
+import { UpstreamError, type ChatProvider } from './types';
+
+export { UpstreamError } from './types';
+export type { ChatProvider, UpstreamErrorOptions } from './types';
+
+// Base URLs of well known providers, so only their API key has to be set
+const KNOWN_BASE_URLS: Record<string, string> = {
+  deepseek: 'https://api.deepseek.com/v1',
+  openai: 'https://api.openai.com/v1',
+};
+
+// `my-provider` reads MY_PROVIDER_BASE_URL and MY_PROVIDER_API_KEY
+function envPrefix(name: string): string {
+  return name.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+}
+
+/**
+ * Whether the deployment has what `name` needs to serve requests
+ */
+export function isProviderConfigured(name: string, env: any): boolean {
+  if (name === DEFAULT_PROVIDER) {
+    // @ts-ignore-next-line
+    return typeof AI !== 'undefined';
+  }
+  const prefix = envPrefix(name);
+  return !!(env?.[`${prefix}_BASE_URL`] || KNOWN_BASE_URLS[name]);
+}
+
+/**
+ * Build the provider named by a model. Other providers than `edgeone` take
+ * their base URL and API key from `<NAME>_BASE_URL` and `<NAME>_API_KEY`.
+ */
+export function getProvider(name: string, env: any): ChatProvider {
+  if (name === DEFAULT_PROVIDER) return createBindingProvider();
+
+  const prefix = envPrefix(name);
+  const baseUrl = env?.[`${prefix}_BASE_URL`] || KNOWN_BASE_URLS[name];
+  if (!baseUrl) {
+    throw new UpstreamError(
+      name,
+      `Provider ${name} is not configured, set ${prefix}_BASE_URL`,
+      { retryable: false, code: 'provider_not_configured' }
+    );
+  }
+
+  return createOpenAIProvider({
+    name,
+    baseUrl,
+    apiKey: env?.[`${prefix}_API_KEY`],
+    timeoutMs: toPositiveInt(env?.UPSTREAM_TIMEOUT_MS, 30000),
+  });
+}
+
+/**
+ * The provider serving `model`, and the model name it knows it by
+ */
+export function resolveUpstream(
+  model: ModelConfig | undefined,
+  id: string,
+  env: any
+): { provider: ChatProvider; model: string } {
+  return {
+    provider: getProvider(model?.provider || DEFAULT_PROVIDER, env),
+    model: model?.upstreamModel || id,
+  };
+}
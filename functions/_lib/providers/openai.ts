@@ -0,0 +1,84 @@
+import type { ChatProvider } from './types';
+import { UpstreamError } from './types';
+
+export interface OpenAIProviderConfig {
+  name: string;
+  baseUrl: string;
+  apiKey?: string;
+  // Time allowed until the upstream starts answering
+  timeoutMs: number;
+}
+
+// Pull the message out of an OpenAI-style error body, or fall back to the text
+function readErrorMessage(text: string): string {
+  try {
+    const data = JSON.parse(text);
+    const message = data?.error?.message || data?.message;
+    if (message) return String(message);
+  } catch {
+    // Not JSON, use the text as it is
+  }
+  return text.slice(0, 200) || 'No response body';
+}
+
+/**
+ * Any upstream that speaks the OpenAI chat completions API
+ */
+export function createOpenAIProvider(
+  config: OpenAIProviderConfig
+): ChatProvider {
+  const url = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    name: config.name,
+    async chatCompletions(params) {
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream',
+      };
+      if (config.apiKey) {
+        headers.Authorization = `Bearer ${config.apiKey}`;
+      }
+
+      // Only waiting for the response headers is timed, the stream itself
+      // can take as long as the answer does
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), config.timeoutMs);
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            ...params,
+            stream: true,
+            stream_options: { include_usage: true },
+          }),
+          signal: controller.signal,
+        });
+      } catch (error: any) {
+        throw new UpstreamError(
+          config.name,
+          controller.signal.aborted
+            ? `${config.name} did not respond within ${config.timeoutMs}ms`
+            : error?.message || String(error)
+        );
+      } finally {
+        clearTimeout(timer);
+      }
+
+      if (!response.ok) {
+        const message = readErrorMessage(await response.text());
+        throw new UpstreamError(
+          config.name,
+          `${config.name} returned ${response.status}: ${message}`,
+          { status: response.status }
+        );
+      }
+      if (!response.body) {
+        throw new UpstreamError(config.name, `${config.name} sent no stream`);
+      }
+      return response.body;
+    },
+  };
+}
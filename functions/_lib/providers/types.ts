@@ -0,0 +1,64 @@
+import type { ChatCompletionParams } from '../ai';
+import { ApiError } from '../errors';
+
+export interface ChatProvider {
+  name: string;
+  // Start a streaming completion, rejecting with an UpstreamError when the
+  // upstream refuses it
+  chatCompletions(
+    params: ChatCompletionParams
+  ): Promise<ReadableStream<Uint8Array>>;
+}
+
+export interface UpstreamErrorOptions {
+  // HTTP status the upstream answered with, if it answered at all
+  status?: number;
+  // Whether another attempt could succeed, derived from `status` by default
+  retryable?: boolean;
+  code?: string;
+}
+
+// Timeouts, rate limits and server errors can pass, anything else will
+// fail the same way again
+function isRetryableStatus(status?: number): boolean {
+  return !status || status === 408 || status === 429 || status >= 500;
+}
+
+// Client errors about the request itself are passed on, failures of the
+// upstream or of our credentials for it are a bad gateway
+function toClientStatus(status?: number): number {
+  if (status === 429) return 429;
+  const passed = status && status >= 400 && status < 500;
+  return passed && ![401, 403, 408].includes(status) ? status : 502;
+}
+
+/**
+ * Failure of an upstream model provider, the same for every route
+ */
+export class UpstreamError extends ApiError {
+  upstreamStatus?: number;
+  retryable: boolean;
+
+  constructor(
+    public provider: string,
+    message: string,
+    options: UpstreamErrorOptions = {}
+  ) {
+    const status = toClientStatus(options.status);
+    super(
+      status,
+      message,
+      status === 429
+        ? 'rate_limit_error'
+        : status < 500
+          ? 'invalid_request_error'
+          : 'server_error',
+      options.code || 'upstream_error'
+    );
+    this.name = 'UpstreamError';
+    this.upstreamStatus = options.status;
+    this.retryable = options.retryable ?? isRetryableStatus(options.status);
+    // Keep `instanceof` working when compiled to ES5
+    Object.setPrototypeOf(this, UpstreamError.prototype);
+  }
+}
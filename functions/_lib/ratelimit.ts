@@ -0,0 +1,73 @@
+import type { KeyValueStore } from './storage';
+
+const MINUTE = 60;
+const DAY = 24 * 60 * 60;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfter: number;
+}
+
+/**
+ * Fixed window bucket for the current time, along with the seconds left in it
+ */
+function currentWindow(seconds: number) {
+  const now = Math.floor(Date.now() / 1000);
+  const bucket = Math.floor(now / seconds);
+  return { bucket, remaining: (bucket + 1) * seconds - now };
+}
+
+/**
+ * Count one request against a per-minute limit.
+ * Counters are read-modify-write, so concurrent requests may overshoot slightly.
+ */
+export async function consumeRequest(
+  store: KeyValueStore,
+  id: string,
+  limit?: number
+): Promise<RateLimitResult> {
+  if (!limit) return { allowed: true, retryAfter: 0 };
+
+  const { bucket, remaining } = currentWindow(MINUTE);
+  const key = `rpm:${id}:${bucket}`;
+  const count = (await store.get<number>(key)) || 0;
+
+  if (count >= limit) {
+    return { allowed: false, retryAfter: remaining };
+  }
+
+  await store.set(key, count + 1, remaining);
+  return { allowed: true, retryAfter: 0 };
+}
+
+/**
+ * Check whether a daily token budget still has room
+ */
+export async function checkTokenBudget(
+  store: KeyValueStore,
+  id: string,
+  limit?: number
+): Promise<RateLimitResult> {
+  if (!limit) return { allowed: true, retryAfter: 0 };
+
+  const { bucket, remaining } = currentWindow(DAY);
+  const used = (await store.get<number>(`tpd:${id}:${bucket}`)) || 0;
+
+  return used >= limit
+    ? { allowed: false, retryAfter: remaining }
+    : { allowed: true, retryAfter: 0 };
+}
+
+/**
+ * Add the tokens a finished request used to today's total
+ */
+export async function recordTokens(
+  store: KeyValueStore,
+  id: string,
+  tokens: number
+): Promise<void> {
+  const { bucket, remaining } = currentWindow(DAY);
+  const key = `tpd:${id}:${bucket}`;
+  const used = (await store.get<number>(key)) || 0;
+  await store.set(key, used + tokens, remaining);
+}
@@ -0,0 +1,221 @@
+import { isEmptyDelta } from './completion';
+import { encodeSSE, mapSSE, readSSE } from './sse';
+
+const OPEN_TAG = '<think>';
+const CLOSE_TAG = '</think>';
+
+// Characters held back while an opening tag may be missing. Without a tag
+// by then the text is taken for reasoning, so reasoning keeps streaming and
+// only answers shorter than this can come through untagged.
+const IMPLICIT_OPEN_WINDOW = 100;
+
+export interface ReasoningParts {
+  content: string;
+  reasoning: string;
+}
+
+export interface ThinkParserOptions {
+  // R1 often leaves out the opening tag, which its chat template already
+  // put in the prompt. The first characters are then held back until a tag
+  // shows whether they were reasoning.
+  implicitOpen?: boolean;
+}
+
+/**
+ * Split streamed text on <think> tags. A tag can be cut across chunks, so a
+ * trailing fragment that could still become one is held back until the
+ * next chunk or `flush`.
+ */
+export function createThinkParser(options: ThinkParserOptions = {}) {
+  let thinking = false;
+  // Whether no tag has been seen yet while an opening tag may be missing
+  let undecided = !!options.implicitOpen;
+  let pending = '';
+  // Whitespace right after a tag only separates the two parts
+  let trimStart = false;
+
+  const emit = (parts: ReasoningParts, text: string) => {
+    if (trimStart) {
+      text = text.replace(/^\s+/, '');
+      trimStart = !text;
+    }
+    if (thinking) {
+      parts.reasoning += text;
+    } else {
+      parts.content += text;
+    }
+  };
+
+  return {
+    push(text: string): ReasoningParts {
+      const parts = { content: '', reasoning: '' };
+      let buffer = pending + text;
+      pending = '';
+
+      while (buffer) {
+        if (undecided) {
+          const open = buffer.indexOf(OPEN_TAG);
+          const close = buffer.indexOf(CLOSE_TAG);
+          if (
+            close === -1 &&
+            open === -1 &&
+            buffer.length < IMPLICIT_OPEN_WINDOW
+          ) {
+            pending = buffer;
+            break;
+          }
+          // A closing tag first, or none in the window, means the text so
+          // far is reasoning
+          thinking = open === -1 || (close !== -1 && close < open);
+          undecided = false;
+          continue;
+        }
+
+        const tag = thinking ? CLOSE_TAG : OPEN_TAG;
+        const index = buffer.indexOf(tag);
+        if (index >= 0) {
+          emit(parts, buffer.slice(0, index));
+          buffer = buffer.slice(index + tag.length);
+          thinking = !thinking;
+          trimStart = true;
+          continue;
+        }
+
+        // Hold back the longest suffix that is the start of the tag
+        let keep = Math.min(tag.length - 1, buffer.length);
+        while (keep && !tag.startsWith(buffer.slice(-keep))) keep--;
+        emit(parts, buffer.slice(0, buffer.length - keep));
+        pending = buffer.slice(buffer.length - keep);
+        break;
+      }
+
+      return parts;
+    },
+    // Stop waiting for a missing opening tag, held text is content
+    decide(): ReasoningParts {
+      undecided = false;
+      return this.push('');
+    },
+    flush(): ReasoningParts {
+      const parts = { content: '', reasoning: '' };
+      emit(parts, pending);
+      pending = '';
+      return parts;
+    },
+  };
+}
+
+/**
+ * Move <think> reasoning out of `delta.content` into `delta.reasoning_content`,
+ * so every backend streams reasoning the same way. `implicitOpen` is set for
+ * reasoning models, whose output may start inside an unopened <think>.
+ */
+export function normalizeReasoning(
+  stream: ReadableStream<Uint8Array>,
+  options: ThinkParserOptions = {}
+): ReadableStream<Uint8Array> {
+  const abort = new AbortController();
+  const chunks = readSSE(stream, abort.signal);
+  const parser = createThinkParser(options);
+  let nativeReasoning = false;
+  let last: any = null;
+
+  // Split the chunk's content in place, false when nothing is left to send
+  const normalizeChunk = (chunk: any): boolean => {
+    const choice = chunk.choices?.[0];
+    if (!choice) return true;
+    const delta = choice.delta || {};
+    const none: ReasoningParts = { content: '', reasoning: '' };
+
+    // A backend that sends reasoning_content splits reasoning itself, so its
+    // content is the answer even without tags
+    let held = none;
+    if (delta.reasoning_content && !nativeReasoning) {
+      nativeReasoning = true;
+      held = parser.decide();
+    }
+    const parts =
+      typeof delta.content === 'string' ? parser.push(delta.content) : none;
+    // Held back text goes out with the finishing chunk, nothing follows it
+    const rest = choice.finish_reason ? parser.flush() : none;
+
+    const content = held.content + parts.content + rest.content;
+    const reasoning = held.reasoning + parts.reasoning + rest.reasoning;
+    if (typeof delta.content !== 'string' && !content && !reasoning) {
+      return true;
+    }
+
+    const merged = (delta.reasoning_content || '') + reasoning;
+    choice.delta = {
+      ...delta,
+      content: content || undefined,
+      reasoning_content: merged || undefined,
+    };
+    last = {
+      id: chunk.id,
+      object: chunk.object,
+      created: chunk.created,
+      model: chunk.model,
+    };
+    return !isEmptyDelta(choice.delta) || !!choice.finish_reason;
+  };
+
+  return new ReadableStream({
+    async pull(controller) {
+      let { done, value: chunk } = await chunks.next();
+
+      // Skip chunks that only carried a held back tag fragment, a pull
+      // has to enqueue something or the reader is never called back
+      while (!done && !normalizeChunk(chunk)) {
+        ({ done, value: chunk } = await chunks.next());
+      }
+
+      if (done) {
+        const rest = parser.flush();
+        if (last && (rest.content || rest.reasoning)) {
+          controller.enqueue(
+            encodeSSE({
+              ...last,
+              choices: [
+                {
+                  index: 0,
+                  delta: {
+                    ...(rest.reasoning && {
+                      reasoning_content: rest.reasoning,
+                    }),
+                    ...(rest.content && { content: rest.content }),
+                  },
+                  finish_reason: null,
+                },
+              ],
+            })
+          );
+        }
+        controller.enqueue(encodeSSE('[DONE]'));
+        controller.close();
+        return;
+      }
+
+      controller.enqueue(encodeSSE(chunk));
+    },
+    async cancel(reason) {
+      abort.abort(reason);
+      await chunks.return(undefined);
+    },
+  });
+}
+
+/**
+ * Remove reasoning from a completion chunk stream, for clients that asked
+ * for answers only
+ */
+export function stripReasoning(
+  stream: ReadableStream<Uint8Array>
+): ReadableStream<Uint8Array> {
+  return mapSSE(stream, (chunk) => {
+    const choice = chunk.choices?.[0];
+    if (!choice?.delta?.reasoning_content) return chunk;
+    delete choice.delta.reasoning_content;
+    return isEmptyDelta(choice.delta) && !choice.finish_reason ? null : chunk;
+  });
+}
@@ -0,0 +1,128 @@
+import { z } from 'zod';
+import { badRequest } from './errors';
+import type { ModelConfig } from './models';
+
+// Sampling fields accepted on completion requests, merged into the request schema
+export const samplingShape = {
+  temperature: z.number().min(0).max(2).optional(),
+  top_p: z.number().gt(0).max(1).optional(),
+  max_tokens: z.number().int().positive().optional(),
+  max_completion_tokens: z.number().int().positive().optional(),
+  stop: z
+    .union([z.string().min(1), z.array(z.string().min(1)).min(1).max(4)])
+    .optional(),
+  presence_penalty: z.number().min(-2).max(2).optional(),
+  frequency_penalty: z.number().min(-2).max(2).optional(),
+  seed: z.number().int().optional(),
+  response_format: z
+    .object({ type: z.enum(['text', 'json_object']) })
+    .optional(),
+  n: z.number().int().positive().optional(),
+};
+
+export interface SamplingParams {
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+  stop?: string | string[];
+  presence_penalty?: number;
+  frequency_penalty?: number;
+  seed?: number;
+  response_format?: { type: 'text' | 'json_object' };
+}
+
+export type SamplingParam = keyof SamplingParams;
+
+// Every SamplingParams key, for validating model settings
+export const SAMPLING_PARAMS: [SamplingParam, ...SamplingParam[]] = [
+  'temperature',
+  'top_p',
+  'max_tokens',
+  'stop',
+  'presence_penalty',
+  'frequency_penalty',
+  'seed',
+  'response_format',
+];
+
+// OpenAI parameters the backend cannot honor, rejected instead of dropped
+const UNSUPPORTED_PARAMS = [
+  'logprobs',
+  'top_logprobs',
+  'logit_bias',
+  'best_of',
+  'echo',
+  'suffix',
+];
+
+/**
+ * Validate sampling fields against the selected model and return the ones
+ * to forward to the backend
+ */
+export function resolveSamplingParams(
+  body: Record<string, any>,
+  model: ModelConfig
+): SamplingParams {
+  for (const param of UNSUPPORTED_PARAMS) {
+    if (body[param] !== undefined && body[param] !== null) {
+      throw badRequest(
+        `Unsupported parameter: '${param}' is not supported by this API.`,
+        param,
+        'unsupported_parameter'
+      );
+    }
+  }
+
+  if (body.n !== undefined && body.n !== 1) {
+    throw badRequest(
+      `Unsupported value: 'n' must be 1, got ${body.n}.`,
+      'n',
+      'unsupported_value'
+    );
+  }
+
+  if (
+    body.max_tokens !== undefined &&
+    body.max_completion_tokens !== undefined
+  ) {
+    throw badRequest(
+      "Set either 'max_tokens' or 'max_completion_tokens', not both.",
+      'max_completion_tokens',
+      'invalid_value'
+    );
+  }
+
+  const params: SamplingParams = {
+    temperature: body.temperature,
+    top_p: body.top_p,
+    max_tokens: body.max_tokens ?? body.max_completion_tokens,
+    stop: body.stop,
+    presence_penalty: body.presence_penalty,
+    frequency_penalty: body.frequency_penalty,
+    seed: body.seed,
+    response_format: body.response_format,
+  };
+
+  for (const param of model.unsupportedParams || []) {
+    if (params[param] !== undefined) {
+      throw badRequest(
+        `Unsupported parameter: '${param}' is not supported by ${model.id}.`,
+        param,
+        'unsupported_parameter'
+      );
+    }
+  }
+
+  if (params.max_tokens && params.max_tokens > model.maxOutputTokens) {
+    throw badRequest(
+      `max_tokens is too large: ${params.max_tokens}. ${model.id} supports at most ${model.maxOutputTokens} completion tokens.`,
+      body.max_tokens !== undefined ? 'max_tokens' : 'max_completion_tokens',
+      'invalid_value'
+    );
+  }
+
+  // Drop unset fields so backend defaults apply
+  return Object.fromEntries(
+    Object.entries(params).filter(([, value]) => value !== undefined)
+  ) as SamplingParams;
+}
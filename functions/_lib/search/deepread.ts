@@ -0,0 +1,122 @@
+import { truncateToTokens } from '../tokens';
+import { extractReadableText } from './extract';
+import { checkFetchUrl, type FetchGuardOptions } from './guard';
+import type { SearchResult } from './types';
+
+// Every hop is checked again, so a public page cannot redirect inward
+const MAX_REDIRECTS = 5;
+
+export interface DeepReadOptions extends FetchGuardOptions {
+  topN: number;
+  timeoutMs: number;
+  maxBytes: number;
+  tokensPerResult: number;
+}
+
+export type Fetcher = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Read at most `maxBytes` of a response body
+ */
+async function readCapped(
+  response: Response,
+  maxBytes: number
+): Promise<string> {
+  const charset =
+    response.headers.get('content-type')?.match(/charset=([\w-]+)/i)?.[1] ||
+    'utf-8';
+  let decoder: TextDecoder;
+  try {
+    decoder = new TextDecoder(charset);
+  } catch {
+    decoder = new TextDecoder();
+  }
+
+  const reader = response.body!.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  while (size < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value.slice(0, maxBytes - size));
+    size += value.length;
+  }
+  await reader.cancel().catch(() => {});
+
+  const bytes = new Uint8Array(Math.min(size, maxBytes));
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return decoder.decode(bytes);
+}
+
+/**
+ * Fetch one page and return its readable text, or null when it cannot be
+ * read or points at a host that may not be fetched
+ */
+export async function fetchPageText(
+  url: string,
+  options: DeepReadOptions,
+  fetcher: Fetcher = fetch
+): Promise<string | null> {
+  try {
+    const signal = AbortSignal.timeout(options.timeoutMs);
+    let target = url;
+    let response: Response | null = null;
+
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      const rejected = await checkFetchUrl(target, options);
+      if (rejected) {
+        console.error(`Deep read skipped ${target}: ${rejected}`);
+        return null;
+      }
+
+      response = await fetcher(target, {
+        headers: { Accept: 'text/html,text/plain;q=0.9' },
+        redirect: 'manual',
+        signal,
+      });
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) break;
+
+      await response.body?.cancel().catch(() => {});
+      target = new URL(location, target).toString();
+      response = null;
+    }
+
+    const type = response?.headers.get('content-type') || '';
+    if (!response?.ok || !response.body || !/text\/(html|plain)/.test(type)) {
+      return null;
+    }
+
+    const raw = await readCapped(response, options.maxBytes);
+    const text = type.includes('html') ? extractReadableText(raw) : raw.trim();
+    return text ? truncateToTokens(text, options.tokensPerResult) : null;
+  } catch (error) {
+    console.error(`Deep read failed for ${url}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Attach the full page text to the top results in parallel. Results whose
+ * page cannot be read keep only their snippet.
+ */
+export async function deepReadResults(
+  results: SearchResult[],
+  options: DeepReadOptions,
+  fetcher: Fetcher = fetch
+): Promise<SearchResult[]> {
+  const pages = await Promise.all(
+    results
+      .slice(0, options.topN)
+      .map((result) => fetchPageText(result.url, options, fetcher))
+  );
+
+  return results.map((result, i) =>
+    pages[i] ? { ...result, pageContent: pages[i]! } : result
+  );
+}
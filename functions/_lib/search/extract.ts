@@ -0,0 +1,133 @@
+// Elements whose content is never part of the readable page text
+const DROPPED_ELEMENTS = [
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'svg',
+  'iframe',
+  'head',
+  'nav',
+  'header',
+  'footer',
+  'aside',
+  'form',
+  'button',
+  'select',
+];
+
+const BLOCK_TAGS =
+  /<\/?(p|div|section|article|main|br|li|ul|ol|tr|table|h[1-6]|blockquote|pre)\b[^>]*>/gi;
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] !== '#') return ENTITIES[code.toLowerCase()] ?? entity;
+    const point =
+      code[1].toLowerCase() === 'x'
+        ? parseInt(code.slice(2), 16)
+        : parseInt(code.slice(1), 10);
+    return Number.isFinite(point) && point > 0 && point < 0x110000
+      ? String.fromCodePoint(point)
+      : entity;
+  });
+}
+
+/**
+ * Largest `<article>` or `<main>` element, which usually holds the page body
+ */
+function pickMainContent(html: string): string {
+  for (const tag of ['article', 'main']) {
+    const matches = html.match(
+      new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?<\\/${tag}>`, 'gi')
+    );
+    if (matches?.length) {
+      return matches.reduce((a, b) => (b.length > a.length ? b : a));
+    }
+  }
+  return html.match(/<body\b[^>]*>([\s\S]*)<\/body>/i)?.[1] || html;
+}
+
+// Link text is wrapped in these while tags are stripped, to tell link
+// lists apart from prose
+const LINK_START = '\u0001';
+const LINK_END = '\u0002';
+
+// Common menu, pager and share entries, English and Chinese
+const NAVIGATION_LINE =
+  /^(home|menu|share( this)?|print|log ?in|sign (in|up)|subscribe|next|prev(ious)?|back to top|skip to (main )?content|read more|首页|菜单|分享|打印|登录|注册|订阅|上一篇|下一篇|上一页|下一页|返回顶部|阅读全文)$/i;
+
+/**
+ * Drop the link markers from a line and count the characters they wrapped
+ */
+function measureLinks(line: string): { text: string; linkChars: number } {
+  let text = '';
+  let linkChars = 0;
+  let inLink = false;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === LINK_START) {
+      inLink = true;
+    } else if (line[i] === LINK_END) {
+      inLink = false;
+    } else {
+      text += line[i];
+      if (inLink && /\S/.test(line[i])) linkChars++;
+    }
+  }
+  return { text: text.replace(/\s+/g, ' ').trim(), linkChars };
+}
+
+/**
+ * Boilerplate lines are copyright notices, known navigation entries and
+ * lines made up mostly of links, such as menus and related-post lists.
+ * Short headings and CJK sentences are kept.
+ */
+function isBoilerplate(text: string, linkChars: number): boolean {
+  if (/^(©|copyright\b|all rights reserved)/i.test(text)) return true;
+  if (NAVIGATION_LINE.test(text)) return true;
+  const chars = text.replace(/ /g, '').length;
+  return linkChars > chars / 2 && !/[.!?。！？]$/.test(text);
+}
+
+/**
+ * Extract the main readable text from an HTML page
+ */
+export function extractReadableText(html: string): string {
+  let body = html.replace(/<!--[\s\S]*?-->/g, '');
+  for (const tag of DROPPED_ELEMENTS) {
+    body = body.replace(
+      new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?<\\/${tag}>`, 'gi'),
+      ' '
+    );
+  }
+
+  const text = decodeEntities(
+    pickMainContent(body)
+      .replace(BLOCK_TAGS, '\n')
+      .replace(/<a\b[^>]*>/gi, LINK_START)
+      .replace(/<\/a\s*>/gi, LINK_END)
+      .replace(/<[^>]+>/g, ' ')
+  );
+
+  const seen = new Set<string>();
+  return text
+    .split('\n')
+    .map(measureLinks)
+    .filter(({ text: line, linkChars }) => {
+      if (!line || isBoilerplate(line, linkChars) || seen.has(line)) {
+        return false;
+      }
+      seen.add(line);
+      return true;
+    })
+    .map(({ text: line }) => line)
+    .join('\n');
+}
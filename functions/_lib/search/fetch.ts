@@ -0,0 +1,40 @@
+import type { SearchResponse, SearchResult } from './types';
+
+/**
+ * Fetch a JSON search API with a timeout, mapping transport and HTTP
+ * failures to a typed search error
+ */
+export async function fetchResults(
+  provider: string,
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  extract: (data: any) => SearchResult[]
+): Promise<SearchResponse> {
+  try {
+    const response = await fetch(url, {
+      ...init,
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      return {
+        ok: false,
+        error: {
+          provider,
+          status: response.status,
+          message: `Search failed: ${errorText.slice(0, 200)}`,
+        },
+      };
+    }
+
+    return { ok: true, results: extract(await response.json()) };
+  } catch (error: any) {
+    const message =
+      error?.name === 'TimeoutError'
+        ? `Search timed out after ${timeoutMs}ms`
+        : error?.message || String(error);
+    return { ok: false, error: { provider, message } };
+  }
+}
@@ -0,0 +1,87 @@
+import type { SearchFilters, SearchResult, TimeRange } from './types';
+
+const TIME_RANGE_DAYS: Record<TimeRange, number> = {
+  day: 1,
+  week: 7,
+  month: 31,
+  year: 366,
+};
+
+const DOMAIN_PATTERN = /^(?=.{1,253}$)([a-z0-9](-*[a-z0-9])*\.)+[a-z]{2,63}$/;
+
+/**
+ * Reduce a domain or URL such as `https://www.example.com/path` to
+ * `example.com`, null when it is not a domain name
+ */
+export function normalizeDomain(input: string): string | null {
+  const host = input
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//, '')
+    .replace(/[/?#:].*$/, '')
+    .replace(/^\*?\./, '')
+    .replace(/^www\./, '')
+    .replace(/\.$/, '');
+  return DOMAIN_PATTERN.test(host) ? host : null;
+}
+
+// A domain also covers its subdomains
+function matchesDomain(hostname: string, domains: string[]): boolean {
+  return domains.some(
+    (domain) => hostname === domain || hostname.endsWith(`.${domain}`)
+  );
+}
+
+function getHostname(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/\.$/, '');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a URL is on one of `excludeDomains` or their subdomains
+ */
+export function isDeniedUrl(url: string, excludeDomains: string[]): boolean {
+  const hostname = getHostname(url);
+  return !!hostname && matchesDomain(hostname, excludeDomains);
+}
+
+export function hasResultFilters(filters?: SearchFilters): boolean {
+  return !!(
+    filters?.includeDomains?.length ||
+    filters?.excludeDomains?.length ||
+    filters?.timeRange
+  );
+}
+
+/**
+ * Apply domain and time filters to a result list. Excluded domains win over
+ * included ones, and results without a date are kept by a time filter
+ * since their age is unknown.
+ */
+export function filterResults(
+  results: SearchResult[],
+  filters?: SearchFilters
+): SearchResult[] {
+  if (!hasResultFilters(filters)) return results;
+  const { includeDomains = [], excludeDomains = [], timeRange } = filters!;
+  const oldest = timeRange
+    ? Date.now() - TIME_RANGE_DAYS[timeRange] * 24 * 60 * 60 * 1000
+    : 0;
+
+  return results.filter((result) => {
+    const hostname = getHostname(result.url);
+    if (!hostname) return false;
+    if (matchesDomain(hostname, excludeDomains)) return false;
+    if (includeDomains.length && !matchesDomain(hostname, includeDomains)) {
+      return false;
+    }
+    if (oldest && result.publishedAt) {
+      const published = Date.parse(result.publishedAt);
+      if (!isNaN(published) && published < oldest) return false;
+    }
+    return true;
+  });
+}
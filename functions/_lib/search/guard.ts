@@ -0,0 +1,231 @@
+import { isDeniedUrl } from './filter';
+
+// Checks for pages fetched on behalf of the model, so search results and
+// tool calls cannot reach hosts that are only meant to be reachable from
+// inside the deployment
+
+export type HostResolver = (hostname: string) => Promise<string[]>;
+
+export interface FetchGuardOptions {
+  // Resolves hostnames so names pointing at private addresses are caught,
+  // only literal addresses are checked without one
+  resolveHost?: HostResolver;
+  // SEARCH_DENY_DOMAINS, which apply to fetched pages as well
+  denyDomains?: string[];
+}
+
+const BLOCKED_HOSTNAMES = ['localhost', 'metadata.google.internal'];
+const BLOCKED_SUFFIXES = ['.localhost', '.local', '.internal', '.home.arpa'];
+
+// Loopback, private, shared, link-local (cloud metadata), documentation,
+// benchmarking, multicast and reserved IPv4 ranges
+const PRIVATE_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+
+const IPV4_PATTERN = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+
+function parseIPv4(address: string): number | null {
+  const match = address.match(IPV4_PATTERN);
+  if (!match) return null;
+  const parts = match.slice(1).map(Number);
+  if (parts.some((part) => part > 255)) return null;
+  return parts.reduce((value, part) => value * 256 + part, 0);
+}
+
+function isPrivateIPv4(value: number): boolean {
+  return PRIVATE_IPV4_RANGES.some(([base, bits]) => {
+    const size = Math.pow(2, 32 - bits);
+    const start = parseIPv4(base)!;
+    return value >= start && value < start + size;
+  });
+}
+
+// Eight 16-bit groups, with `::` expanded and a trailing dotted IPv4 part
+// converted
+function parseIPv6(address: string): number[] | null {
+  let text = address.toLowerCase().replace(/^\[|\]$/g, '');
+  const zone = text.indexOf('%');
+  if (zone !== -1) text = text.slice(0, zone);
+
+  const dotted = text.match(/:(\d{1,3}(\.\d{1,3}){3})$/);
+  if (dotted) {
+    const value = parseIPv4(dotted[1]);
+    if (value === null) return null;
+    text =
+      text.slice(0, -dotted[1].length) +
+      `${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...head, ...Array(missing).fill('0'), ...tail].map((group) =>
+    /^[0-9a-f]{1,4}$/.test(group) ? parseInt(group, 16) : NaN
+  );
+  return groups.some(isNaN) ? null : groups;
+}
+
+function isPrivateIPv6(groups: number[]): boolean {
+  const [first] = groups;
+  const embedsIPv4 =
+    // ::ffff:a.b.c.d mapped and ::a.b.c.d compatible addresses
+    (groups.slice(0, 5).every((group) => group === 0) &&
+      (groups[5] === 0xffff || groups[5] === 0)) ||
+    // 64:ff9b::/96 NAT64
+    (first === 0x64 &&
+      groups[1] === 0xff9b &&
+      groups.slice(2, 6).every((group) => group === 0));
+  if (embedsIPv4) {
+    return isPrivateIPv4(groups[6] * 0x10000 + groups[7]);
+  }
+  return (
+    (first & 0xfe00) === 0xfc00 || // unique local fc00::/7
+    (first & 0xffc0) === 0xfe80 || // link-local fe80::/10
+    (first & 0xff00) === 0xff00 || // multicast ff00::/8
+    (first === 0x2001 && groups[1] === 0x0db8) // documentation
+  );
+}
+
+/**
+ * Whether an IP address is anything but a public unicast address.
+ * Strings that are not IP addresses count as private.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ipv4 = parseIPv4(address);
+  if (ipv4 !== null) return isPrivateIPv4(ipv4);
+  const ipv6 = parseIPv6(address);
+  return ipv6 ? isPrivateIPv6(ipv6) : true;
+}
+
+function isIPAddress(hostname: string): boolean {
+  return (
+    parseIPv4(hostname) !== null ||
+    (hostname.includes(':') && parseIPv6(hostname) !== null)
+  );
+}
+
+/**
+ * Resolve hostnames with a DNS-over-HTTPS JSON endpoint, such as
+ * https://cloudflare-dns.com/dns-query. Answers are kept for the lifetime
+ * of the resolver.
+ */
+export function createDohResolver(
+  endpoint: string,
+  timeoutMs: number
+): HostResolver {
+  const cache = new Map<string, Promise<string[]>>();
+
+  const query = async (hostname: string, type: 'A' | 'AAAA') => {
+    const url = new URL(endpoint);
+    url.searchParams.set('name', hostname);
+    url.searchParams.set('type', type);
+    const response = await fetch(url.toString(), {
+      headers: { Accept: 'application/dns-json' },
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`DNS lookup failed with status ${response.status}`);
+    }
+    const data: any = await response.json();
+    // CNAME records are followed by the resolver, only addresses matter
+    return ((data?.Answer || []) as { type: number; data: string }[])
+      .filter((answer) => answer.type === 1 || answer.type === 28)
+      .map((answer) => answer.data);
+  };
+
+  return (hostname) => {
+    if (!cache.has(hostname)) {
+      const lookup = Promise.all([
+        query(hostname, 'A'),
+        query(hostname, 'AAAA'),
+      ]).then(([v4, v6]) => [...v4, ...v6]);
+      // Failed lookups are retried by the next caller
+      lookup.catch(() => cache.delete(hostname));
+      cache.set(hostname, lookup);
+    }
+    return cache.get(hostname)!;
+  };
+}
+
+/**
+ * Check a URL before it is fetched. Returns why the URL may not be fetched,
+ * or null when it may. Only http(s) on the default port to public hosts is
+ * allowed. The fetch itself resolves the name again, so this narrows DNS
+ * rebinding but cannot rule it out.
+ */
+export async function checkFetchUrl(
+  raw: string,
+  options: FetchGuardOptions = {}
+): Promise<string | null> {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return 'Invalid URL';
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return 'Only http(s) URLs can be fetched';
+  }
+  if (url.port) {
+    return 'Only URLs on the default port can be fetched';
+  }
+  if (url.username || url.password) {
+    return 'URLs with credentials cannot be fetched';
+  }
+
+  const hostname = url.hostname.toLowerCase().replace(/\.$/, '');
+  if (
+    (!hostname.includes('.') && !hostname.includes(':')) ||
+    BLOCKED_HOSTNAMES.includes(hostname) ||
+    BLOCKED_SUFFIXES.some((suffix) => hostname.endsWith(suffix))
+  ) {
+    return `${hostname} is not a public host`;
+  }
+  if (
+    options.denyDomains?.length &&
+    isDeniedUrl(url.href, options.denyDomains)
+  ) {
+    return `${hostname} is on the deny list`;
+  }
+
+  if (isIPAddress(hostname)) {
+    return isPrivateAddress(hostname)
+      ? `${hostname} is not a public address`
+      : null;
+  }
+
+  if (options.resolveHost) {
+    let addresses: string[];
+    try {
+      addresses = await options.resolveHost(hostname);
+    } catch (error: any) {
+      return `Could not resolve ${hostname}: ${error?.message || error}`;
+    }
+    if (!addresses.length) {
+      return `Could not resolve ${hostname}`;
+    }
+    if (addresses.some(isPrivateAddress)) {
+      return `${hostname} resolves to a non-public address`;
+    }
+  }
+  return null;
+}
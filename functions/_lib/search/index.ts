@@ -0,0 +1,196 @@
+import { toList, toPositiveInt } from '../env';
+import { createJsonSearchProvider } from './json';
+import { createMockProvider } from './mock';
+import { DEFAULT_SEARXNG_URL, createSearxngProvider } from './searxng';
+import type { DeepReadOptions } from './deepread';
+import type { QueryPlannerOptions } from './query';
+import { normalizeDomain } from './filter';
+import { createDohResolver } from './guard';
+import { INJECTION_POLICIES, type InjectionPolicy } from './sanitize';
+import type { SearchFilters, SearchProvider } from './types';
+
+export { deepReadResults, fetchPageText } from './deepread';
+export { filterResults, isDeniedUrl, normalizeDomain } from './filter';
+export {
+  checkFetchUrl,
+  createDohResolver,
+  isPrivateAddress,
+  type FetchGuardOptions,
+  type HostResolver,
+} from './guard';
+export { normalizeUrl, searchMany } from './merge';
+export {
+  UNTRUSTED_NOTE,
+  looksLikeInjection,
+  sanitizeResults,
+  type InjectionPolicy,
+} from './sanitize';
+export { planSearchQueries, relaxQuery, type QueryPlan } from './query';
+
+export type {
+  SafeSearch,
+  SearchError,
+  SearchFilters,
+  SearchOptions,
+  SearchProvider,
+  SearchResponse,
+  SearchResult,
+  TimeRange,
+} from './types';
+
+// What to do when a search fails or finds nothing
+export type SearchFallback = 'fail' | 'no_context' | 'relax';
+
+// Reported to clients so they can tell how web context was used
+export type SearchStatus = 'ok' | 'relaxed' | 'no_results' | 'failed';
+
+const SEARCH_FALLBACKS: SearchFallback[] = ['fail', 'no_context', 'relax'];
+
+export interface SearchConfig {
+  provider: SearchProvider;
+  count: number;
+  planner: QueryPlannerOptions;
+  deepRead: DeepReadOptions | null;
+  fallback: SearchFallback;
+  filters: SearchFilters;
+  injectionPolicy: InjectionPolicy;
+}
+
+export interface SearchRequestOptions {
+  deepRead?: boolean;
+  // Caps the deployment's SEARCH_RESULT_COUNT for this request
+  maxResults?: number;
+  filters?: SearchFilters;
+}
+
+const DEFAULT_PLANNER_MODEL = '@tx/deepseek-ai/deepseek-v3-0324';
+
+const DEFAULT_DNS_RESOLVER = 'https://cloudflare-dns.com/dns-query';
+
+/**
+ * Build the search provider selected by `SEARCH_PROVIDER`
+ */
+export function createSearchProvider(env: any): SearchProvider {
+  const timeoutMs = toPositiveInt(env?.SEARCH_TIMEOUT_MS, 10000);
+
+  switch (env?.SEARCH_PROVIDER || 'searxng') {
+    case 'searxng':
+      return createSearxngProvider({
+        url: env?.SEARXNG_URL || DEFAULT_SEARXNG_URL,
+        engines: env?.SEARXNG_ENGINES ? toList(env.SEARXNG_ENGINES) : ['bing'],
+        timeoutMs,
+      });
+    case 'json': {
+      if (!env?.SEARCH_API_URL) {
+        throw new Error('SEARCH_API_URL is required for the json provider');
+      }
+      const [title = 'title', url = 'url', content = 'content'] = toList(
+        env.SEARCH_API_FIELDS
+      );
+      return createJsonSearchProvider({
+        url: env.SEARCH_API_URL,
+        apiKey: env.SEARCH_API_KEY,
+        apiKeyHeader: env.SEARCH_API_KEY_HEADER || 'Authorization',
+        queryParam: env.SEARCH_API_QUERY_PARAM || 'q',
+        countParam: env.SEARCH_API_COUNT_PARAM,
+        resultsPath: env.SEARCH_API_RESULTS_PATH || 'results',
+        fields: { title, url, content },
+        timeoutMs,
+      });
+    }
+    case 'mock':
+      return createMockProvider(
+        env?.SEARCH_FIXTURES ? JSON.parse(env.SEARCH_FIXTURES) : undefined
+      );
+    default:
+      throw new Error(`Unknown search provider: ${env.SEARCH_PROVIDER}`);
+  }
+}
+
+/**
+ * Page fetch limits and host checks shared by deep read and the fetch_url
+ * tool. Hostnames are resolved with FETCH_DNS_RESOLVER so names pointing
+ * at private addresses are refused, `none` leaves only literal addresses
+ * checked.
+ */
+export function getDeepReadOptions(env: any): DeepReadOptions {
+  const timeoutMs = toPositiveInt(env?.DEEP_READ_TIMEOUT_MS, 5000);
+  const resolver = env?.FETCH_DNS_RESOLVER || DEFAULT_DNS_RESOLVER;
+  return {
+    topN: toPositiveInt(env?.DEEP_READ_TOP_N, 3),
+    timeoutMs,
+    maxBytes: toPositiveInt(env?.DEEP_READ_MAX_BYTES, 512 * 1024),
+    tokensPerResult: toPositiveInt(env?.DEEP_READ_TOKENS_PER_RESULT, 1500),
+    resolveHost:
+      resolver === 'none' ? undefined : createDohResolver(resolver, timeoutMs),
+    denyDomains: getSearchFilters(env).excludeDomains,
+  };
+}
+
+/**
+ * Resolve the deployment's search settings for one request
+ */
+export function getSearchConfig(
+  env: any,
+  options: SearchRequestOptions = {}
+): SearchConfig {
+  const count = toPositiveInt(env?.SEARCH_RESULT_COUNT, 10);
+  return {
+    provider: createSearchProvider(env),
+    count: Math.min(count, options.maxResults || count),
+    planner: {
+      // `none` keeps query planning on the heuristic path
+      model:
+        env?.QUERY_PLANNER_MODEL === 'none'
+          ? undefined
+          : env?.QUERY_PLANNER_MODEL || DEFAULT_PLANNER_MODEL,
+      maxQueries: toPositiveInt(env?.SEARCH_MAX_QUERIES, 3),
+      timeoutMs: toPositiveInt(env?.QUERY_PLANNER_TIMEOUT_MS, 4000),
+      env,
+    },
+    deepRead: options.deepRead ? getDeepReadOptions(env) : null,
+    fallback: SEARCH_FALLBACKS.includes(env?.SEARCH_FALLBACK)
+      ? env.SEARCH_FALLBACK
+      : 'relax',
+    filters: getSearchFilters(env, options.filters),
+    injectionPolicy: getInjectionPolicy(env),
+  };
+}
+
+/**
+ * What happens to web text that tries to instruct the model, shared by
+ * search context and the web tools
+ */
+export function getInjectionPolicy(env: any): InjectionPolicy {
+  return INJECTION_POLICIES.includes(env?.SEARCH_INJECTION_POLICY)
+    ? env.SEARCH_INJECTION_POLICY
+    : 'mark';
+}
+
+function toDomains(domains: string[] = []): string[] {
+  return domains
+    .map(normalizeDomain)
+    .filter((domain): domain is string => !!domain);
+}
+
+/**
+ * Merge request filters with the deployment's SEARCH_DENY_DOMAINS, which
+ * apply to every search whatever the request includes
+ */
+export function getSearchFilters(
+  env: any,
+  filters: SearchFilters = {}
+): SearchFilters {
+  const excludeDomains = Array.from(
+    new Set([
+      ...toDomains(filters.excludeDomains),
+      ...toDomains(toList(env?.SEARCH_DENY_DOMAINS)),
+    ])
+  );
+  const includeDomains = toDomains(filters.includeDomains);
+  return {
+    ...filters,
+    includeDomains: includeDomains.length ? includeDomains : undefined,
+    excludeDomains: excludeDomains.length ? excludeDomains : undefined,
+  };
+}
@@ -0,0 +1,66 @@
+import { fetchResults } from './fetch';
+import type { SearchProvider } from './types';
+
+export interface JsonSearchConfig {
+  url: string;
+  apiKey?: string;
+  apiKeyHeader: string;
+  queryParam: string;
+  countParam?: string;
+  resultsPath: string;
+  fields: { title: string; url: string; content: string };
+  timeoutMs: number;
+}
+
+/**
+ * Resolve a dot separated path such as `web.results` inside a response body
+ */
+function getPath(data: any, path: string): any {
+  return path
+    .split('.')
+    .filter(Boolean)
+    .reduce((value, key) => value?.[key], data);
+}
+
+/**
+ * Adapter for generic JSON search APIs that take the query as a URL
+ * parameter and return a list of results
+ */
+export function createJsonSearchProvider(
+  config: JsonSearchConfig
+): SearchProvider {
+  return {
+    name: 'json',
+    search(query, { count }) {
+      const url = new URL(config.url);
+      url.searchParams.set(config.queryParam, query);
+      if (config.countParam) {
+        url.searchParams.set(config.countParam, String(count));
+      }
+
+      const headers: Record<string, string> = { Accept: 'application/json' };
+      if (config.apiKey) {
+        headers[config.apiKeyHeader] =
+          config.apiKeyHeader.toLowerCase() === 'authorization'
+            ? `Bearer ${config.apiKey}`
+            : config.apiKey;
+      }
+
+      return fetchResults(
+        'json',
+        url.toString(),
+        { headers },
+        config.timeoutMs,
+        (data) => {
+          const items = getPath(data, config.resultsPath);
+          if (!Array.isArray(items)) return [];
+          return items.slice(0, count).map((item) => ({
+            title: String(getPath(item, config.fields.title) || ''),
+            url: String(getPath(item, config.fields.url) || ''),
+            content: String(getPath(item, config.fields.content) || ''),
+          }));
+        }
+      );
+    },
+  };
+}
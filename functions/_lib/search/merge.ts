@@ -0,0 +1,92 @@
+import { filterResults, hasResultFilters } from './filter';
+import type {
+  SearchFilters,
+  SearchProvider,
+  SearchResponse,
+  SearchResult,
+} from './types';
+
+// Query parameters that only track where a click came from
+const TRACKING_PARAMS = new Set([
+  'fbclid',
+  'gclid',
+  'msclkid',
+  'yclid',
+  'mc_cid',
+  'mc_eid',
+  'ref_src',
+  'spm',
+]);
+
+/**
+ * Canonical form of a URL, so links to the same page compare equal: https,
+ * no `www.` or `m.` host prefix, no fragment, tracking parameters or index
+ * file, and the remaining parameters sorted
+ */
+export function normalizeUrl(raw: string): string {
+  try {
+    const url = new URL(raw);
+    if (url.protocol === 'http:') url.protocol = 'https:';
+    url.hash = '';
+    url.hostname = url.hostname.toLowerCase().replace(/^(www|m)\.(?=.+\.)/, '');
+    for (const key of Array.from(url.searchParams.keys())) {
+      if (key.startsWith('utm_') || TRACKING_PARAMS.has(key.toLowerCase())) {
+        url.searchParams.delete(key);
+      }
+    }
+    url.searchParams.sort();
+    url.pathname = url.pathname.replace(/\/index\.(html?|php)$/i, '/');
+    return url.toString().replace(/\/(?=\?|$)/, '');
+  } catch {
+    return raw.trim();
+  }
+}
+
+/**
+ * Run several queries in parallel, filter and interleave their results so
+ * every query contributes to the top of the list, and drop duplicate URLs
+ */
+export async function searchMany(
+  provider: SearchProvider,
+  queries: string[],
+  count: number,
+  filters?: SearchFilters
+): Promise<SearchResponse> {
+  // Ask for extra results when some are going to be filtered out
+  const fetchCount = hasResultFilters(filters) ? count * 2 : count;
+  const responses = await Promise.all(
+    queries.map((query) =>
+      provider.search(query, { count: fetchCount, filters })
+    )
+  );
+
+  const succeeded = responses.filter((response) => response.ok);
+  if (!succeeded.length) {
+    return responses[0];
+  }
+
+  const lists = succeeded.map((response) =>
+    response.ok ? filterResults(response.results, filters) : []
+  );
+  const seen = new Set<string>();
+  const merged: SearchResult[] = [];
+  const longest = Math.max(...lists.map((list) => list.length));
+
+  for (let i = 0; i < longest && merged.length < count; i++) {
+    for (const list of lists) {
+      const result = list[i];
+      if (!result) continue;
+      const key = normalizeUrl(result.url);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      merged.push(result);
+      if (merged.length >= count) break;
+    }
+  }
+
+  return {
+    ok: true,
+    results: merged,
+    cached: succeeded.every((response) => response.ok && response.cached),
+  };
+}
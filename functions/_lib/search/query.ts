@@ -0,0 +1,192 @@
+import { completeText } from '../ai';
+
+export interface ConversationMessage {
+  role: string;
+  content: string;
+}
+
+export interface QueryPlan {
+  queries: string[];
+  strategy: 'direct' | 'model' | 'heuristic';
+}
+
+export interface QueryPlannerOptions {
+  model?: string;
+  maxQueries: number;
+  timeoutMs: number;
+  // Deployment settings, for reaching the planner model's provider
+  env?: any;
+}
+
+const MAX_QUERY_LENGTH = 200;
+const HISTORY_TURNS = 6;
+
+// Words that usually point back at something named in an earlier turn
+const REFERENCE_PATTERN =
+  /\b(it|its|they|them|their|this|that|these|those|he|she|him|her)\b|[它其这那他她]/i;
+
+const PLANNER_PROMPT = `You write web search queries.
+Given a conversation, write up to {count} short standalone search queries that would find the information needed to answer the user's latest message.
+- Resolve pronouns and references using earlier turns, each query must make sense on its own.
+- Keep each query under 12 words and use the language of the user's latest message.
+- Reply with a JSON array of strings only.`;
+
+function clip(text: string, length: number): string {
+  if (text.length <= length) return text;
+  const cut = text.slice(0, length);
+  const boundary = cut.lastIndexOf(' ');
+  return (boundary > length / 2 ? cut.slice(0, boundary) : cut).trim();
+}
+
+function cleanText(text: string): string {
+  return text
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Build a query without a model call: pick the question out of long
+ * prompts and borrow the previous question's subject for short follow-ups
+ */
+export function heuristicQueries(messages: ConversationMessage[]): string[] {
+  const userMessages = messages.filter((message) => message.role === 'user');
+  const current = cleanText(
+    userMessages[userMessages.length - 1]?.content || ''
+  );
+  const previous = cleanText(
+    userMessages[userMessages.length - 2]?.content || ''
+  );
+
+  if (current.length > MAX_QUERY_LENGTH) {
+    const questions = current.match(/[^.!?。！？]*[?？]/g);
+    const question = questions?.[questions.length - 1]?.trim();
+    return [clip(question || current, MAX_QUERY_LENGTH)];
+  }
+
+  if (previous && current.length < 60 && REFERENCE_PATTERN.test(current)) {
+    return [clip(`${clip(previous, 100)} ${current}`, MAX_QUERY_LENGTH)];
+  }
+
+  return current ? [current] : [];
+}
+
+/**
+ * Pull a JSON string array out of a model reply, tolerating think blocks
+ * and surrounding prose
+ */
+function parseQueries(reply: string, maxQueries: number): string[] {
+  const match = reply
+    .replace(/<think>[\s\S]*?<\/think>/g, '')
+    .match(/\[[\s\S]*\]/);
+  if (!match) return [];
+
+  try {
+    const parsed = JSON.parse(match[0]);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter((item): item is string => typeof item === 'string')
+      .map((item) => clip(cleanText(item), MAX_QUERY_LENGTH))
+      .filter(Boolean)
+      .slice(0, maxQueries);
+  } catch {
+    return [];
+  }
+}
+
+async function modelQueries(
+  messages: ConversationMessage[],
+  model: string,
+  maxQueries: number,
+  timeoutMs: number,
+  env?: any
+): Promise<string[]> {
+  const history = messages
+    .filter(
+      (message) => message.role === 'user' || message.role === 'assistant'
+    )
+    .slice(-HISTORY_TURNS)
+    .map(
+      (message) => `${message.role}: ${clip(cleanText(message.content), 500)}`
+    )
+    .join('\n');
+
+  const reply = await completeText(
+    {
+      model,
+      messages: [
+        {
+          role: 'system',
+          content: PLANNER_PROMPT.replace('{count}', String(maxQueries)),
+        },
+        { role: 'user', content: history },
+      ],
+    },
+    timeoutMs,
+    env
+  );
+  return parseQueries(reply, maxQueries);
+}
+
+/**
+ * Turn the recent conversation into standalone search queries. Opening
+ * questions that are already short are searched as they are.
+ */
+export async function planSearchQueries(
+  messages: ConversationMessage[],
+  options: QueryPlannerOptions
+): Promise<QueryPlan> {
+  const isOpening = messages.filter((m) => m.role === 'user').length <= 1;
+  const input = cleanText(messages[messages.length - 1]?.content || '');
+
+  if (isOpening && input.length <= MAX_QUERY_LENGTH) {
+    return { queries: [input], strategy: 'direct' };
+  }
+
+  if (options.model) {
+    try {
+      const queries = await modelQueries(
+        messages,
+        options.model,
+        options.maxQueries,
+        options.timeoutMs,
+        options.env
+      );
+      if (queries.length) {
+        return { queries, strategy: 'model' };
+      }
+    } catch (error) {
+      console.error('Query planning failed:', error);
+    }
+  }
+
+  return { queries: heuristicQueries(messages), strategy: 'heuristic' };
+}
+
+// Common words dropped when a query is relaxed
+const STOP_WORDS = new Set(
+  'a an and are at be by for from how in is it of on or the to what when where which who why with'.split(
+    ' '
+  )
+);
+
+/**
+ * Loosen a query that found nothing: drop search operators, quotes,
+ * punctuation and filler words, and keep only the leading key terms
+ */
+export function relaxQuery(query: string): string {
+  const words = query
+    .replace(/\b(site|intitle|inurl|filetype):\S+/gi, ' ')
+    .replace(/(^|\s)-\S+/g, ' ')
+    .replace(/["“”'‘’]/g, ' ')
+    .replace(/[!-\/:-@[-`{-~\u3000-\u303f\uff01-\uff0f\uff1a-\uff20]/g, ' ')
+    .split(/\s+/)
+    .filter((word) => word && !STOP_WORDS.has(word.toLowerCase()));
+
+  // Unspaced CJK text is a single "word", shorten it instead
+  if (words.length === 1 && words[0].length > 12) {
+    return words[0].slice(0, 12);
+  }
+
+  return words.slice(0, 6).join(' ');
+}
@@ -0,0 +1,71 @@
+import { fetchResults } from './fetch';
+import type { SafeSearch, SearchFilters, SearchProvider } from './types';
+
+export const DEFAULT_SEARXNG_URL = 'https://proxy.edgeone.app/search';
+
+export interface SearxngConfig {
+  url: string;
+  engines: string[];
+  timeoutMs: number;
+}
+
+const SAFESEARCH_LEVELS: Record<SafeSearch, string> = {
+  off: '0',
+  moderate: '1',
+  strict: '2',
+};
+
+// SearXNG has no domain parameter, but its engines understand `site:`
+function withSites(query: string, domains: string[] = []): string {
+  if (!domains.length) return query;
+  const sites = domains.map((domain) => `site:${domain}`);
+  return `${query} ${sites.length > 1 ? `(${sites.join(' OR ')})` : sites[0]}`;
+}
+
+function toParams(query: string, filters: SearchFilters = {}) {
+  const params = new URLSearchParams({
+    q: withSites(query, filters.includeDomains),
+    format: 'json',
+  });
+  if (filters.timeRange) params.set('time_range', filters.timeRange);
+  if (filters.language) params.set('language', filters.language);
+  if (filters.safesearch) {
+    params.set('safesearch', SAFESEARCH_LEVELS[filters.safesearch]);
+  }
+  return params;
+}
+
+/**
+ * Search the web using SearXNG
+ */
+export function createSearxngProvider(config: SearxngConfig): SearchProvider {
+  // The shared EdgeOne proxy only accepts requests from its own origin
+  const headers: Record<string, string> =
+    config.url === DEFAULT_SEARXNG_URL
+      ? { Origin: 'https://proxy.edgeone.app' }
+      : {};
+
+  return {
+    name: 'searxng',
+    search(query, { count, filters }) {
+      const params = toParams(query, filters);
+      if (config.engines.length) {
+        params.set('engines', config.engines.join(','));
+      }
+
+      return fetchResults(
+        'searxng',
+        `${config.url}?${params}`,
+        { headers },
+        config.timeoutMs,
+        (data) =>
+          ((data?.results || []) as any[]).slice(0, count).map((item) => ({
+            title: item.title || '',
+            url: item.url || '',
+            content: item.content || '',
+            ...(item.publishedDate && { publishedAt: item.publishedDate }),
+          }))
+      );
+    },
+  };
+}
@@ -0,0 +1,47 @@
+export interface SearchResult {
+  title: string;
+  url: string;
+  content: string;
+  // Readable page text filled in by deep read
+  pageContent?: string;
+  // Publication date, when the provider reports one
+  publishedAt?: string;
+  // Set by sanitizing when the text looks like instructions to the model
+  untrusted?: boolean;
+}
+
+export type TimeRange = 'day' | 'week' | 'month' | 'year';
+
+export type SafeSearch = 'off' | 'moderate' | 'strict';
+
+// Providers apply the filters they support natively, `searchMany` applies
+// the domain and time filters again to every result list
+export interface SearchFilters {
+  includeDomains?: string[];
+  excludeDomains?: string[];
+  timeRange?: TimeRange;
+  language?: string;
+  safesearch?: SafeSearch;
+}
+
+export interface SearchOptions {
+  count: number;
+  filters?: SearchFilters;
+}
+
+export interface SearchError {
+  provider: string;
+  message: string;
+  status?: number;
+}
+
+// Failures are returned rather than thrown so callers can tell
+// "no results" apart from "search failed"
+export type SearchResponse =
+  | { ok: true; results: SearchResult[]; cached?: boolean }
+  | { ok: false; error: SearchError };
+
+export interface SearchProvider {
+  name: string;
+  search(query: string, options: SearchOptions): Promise<SearchResponse>;
+}
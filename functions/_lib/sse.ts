@@ -0,0 +1,222 @@
+/**
+ * Lock a stream for reading. The source is cancelled when `signal` aborts,
+ * which also ends a read that is waiting, or when `release` is called.
+ */
+function openReader(
+  stream: ReadableStream<Uint8Array>,
+  signal?: AbortSignal
+): {
+  reader: ReadableStreamDefaultReader<Uint8Array>;
+  release(): Promise<void>;
+} {
+  const reader = stream.getReader();
+  const abort = () => {
+    reader.cancel(signal?.reason).catch(() => {});
+  };
+  if (signal?.aborted) abort();
+  signal?.addEventListener('abort', abort);
+
+  return {
+    reader,
+    async release() {
+      signal?.removeEventListener('abort', abort);
+      // Stops the source when reading ended early, a no-op after the end
+      await reader.cancel().catch(() => {});
+    },
+  };
+}
+
+/**
+ * Read an SSE byte stream and yield the parsed JSON payload of each data line.
+ * Stopping early, by `return()` or `signal`, cancels the source stream.
+ */
+export async function* readSSE(
+  stream: ReadableStream<Uint8Array>,
+  signal?: AbortSignal
+) {
+  const { reader, release } = openReader(stream, signal);
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      // Keep the trailing partial line in the buffer until the next chunk
+      const lines = buffer.split('\n');
+      buffer = done ? '' : lines.pop() || '';
+
+      for (const line of lines) {
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice(5).trim();
+        if (!data || data === '[DONE]') continue;
+        try {
+          yield JSON.parse(data);
+        } catch {
+          // Ignore keep-alive comments and malformed fragments
+        }
+      }
+
+      if (done) break;
+    }
+  } finally {
+    await release();
+  }
+}
+
+/**
+ * Read an SSE byte stream message by message, keeping event names. Stopping
+ * early cancels the source stream, as with `readSSE`.
+ */
+export async function* readSSEEvents(
+  stream: ReadableStream<Uint8Array>,
+  signal?: AbortSignal
+): AsyncGenerator<{ event?: string; data: string }> {
+  const { reader, release } = openReader(stream, signal);
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      const messages = buffer.split('\n\n');
+      buffer = done ? '' : messages.pop() || '';
+
+      for (const message of messages) {
+        let event: string | undefined;
+        const data: string[] = [];
+        for (const line of message.split('\n')) {
+          if (line.startsWith('event:')) event = line.slice(6).trim();
+          if (line.startsWith('data:')) data.push(line.slice(5).trim());
+        }
+        if (data.length) yield { event, data: data.join('\n') };
+      }
+
+      if (done) break;
+    }
+  } finally {
+    await release();
+  }
+}
+
+/**
+ * Concatenate the content deltas of a chat completion stream, stopping
+ * early and cancelling the stream when `signal` aborts
+ */
+export async function readStreamText(
+  stream: ReadableStream<Uint8Array>,
+  signal?: AbortSignal
+): Promise<string> {
+  let text = '';
+  for await (const chunk of readSSE(stream, signal)) {
+    text += chunk.choices?.[0]?.delta?.content || '';
+  }
+  return text;
+}
+
+/**
+ * Encode one SSE message, optionally as a named event
+ */
+export function encodeSSE(data: unknown, event?: string): Uint8Array {
+  const payload = typeof data === 'string' ? data : JSON.stringify(data);
+  return new TextEncoder().encode(
+    `${event ? `event: ${event}\n` : ''}data: ${payload}\n\n`
+  );
+}
+
+/**
+ * Emit the given messages before the bytes of an existing stream
+ */
+export function prependToStream(
+  stream: ReadableStream<Uint8Array>,
+  messages: Uint8Array[]
+): ReadableStream<Uint8Array> {
+  const reader = stream.getReader();
+  return new ReadableStream({
+    start(controller) {
+      messages.forEach((message) => controller.enqueue(message));
+    },
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * Rewrite the unnamed JSON chunks of an SSE stream. Named events and [DONE]
+ * pass through as they are. `map` returns null to drop a chunk, and `flush`
+ * can add chunks before [DONE] or the end of the stream.
+ */
+export function mapSSE(
+  stream: ReadableStream<Uint8Array>,
+  map: (chunk: any) => any,
+  flush?: () => any[]
+): ReadableStream<Uint8Array> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  let buffer = '';
+  let flushed = false;
+
+  const finish = () => {
+    if (flushed) return [];
+    flushed = true;
+    return (flush?.() || []).map((chunk) => encodeSSE(chunk));
+  };
+
+  const rewrite = (message: string): Uint8Array[] => {
+    if (!message.startsWith('data: ') || message.includes('\n')) {
+      return [encoder.encode(`${message}\n\n`)];
+    }
+    const data = message.slice(6);
+    if (data === '[DONE]') {
+      return [...finish(), encoder.encode(`${message}\n\n`)];
+    }
+    try {
+      const chunk = map(JSON.parse(data));
+      return chunk ? [encodeSSE(chunk)] : [];
+    } catch {
+      return [encoder.encode(`${message}\n\n`)];
+    }
+  };
+
+  return new ReadableStream({
+    async pull(controller) {
+      // Keep reading until something is sent, the reader waits otherwise
+      for (;;) {
+        const { done, value } = await reader.read();
+        buffer += decoder.decode(value, { stream: !done });
+
+        // Work on whole SSE messages
+        const messages = buffer.split('\n\n');
+        buffer = done ? '' : messages.pop() || '';
+
+        const output = messages.flatMap((message) =>
+          message ? rewrite(message) : []
+        );
+        if (done) output.push(...finish());
+        output.forEach((bytes) => controller.enqueue(bytes));
+
+        if (done) {
+          controller.close();
+          return;
+        }
+        if (output.length) return;
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
@@ -0,0 +1,161 @@
+// Key-value storage shared by rate limiting and other stateful features
+export interface KeyValueStore {
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T, ttlSeconds?: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+interface StoredEntry<T> {
+  value: T;
+  expiresAt?: number;
+}
+
+// EdgeOne KV namespaces expose get/put/delete on a global binding
+interface EdgeKVNamespace {
+  get(key: string, options?: { type: 'json' }): Promise<any>;
+  put(
+    key: string,
+    value: string,
+    options?: { expirationTtl?: number }
+  ): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+// Memory entries live for the lifetime of the isolate. Values are kept
+// serialized so callers get copies, the same as with KV. The map's order
+// doubles as recency, the least recently used entry comes first.
+export interface MemoryArea {
+  entries: Map<string, StoredEntry<string>>;
+  lastPrune: number;
+}
+
+export const MEMORY_STORE_MAX_ENTRIES = 10000;
+const MEMORY_PRUNE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * A separate memory map with its own entry cap, for state that other
+ * stores' traffic must not evict
+ */
+export function createMemoryArea(): MemoryArea {
+  return { entries: new Map(), lastPrune: Date.now() };
+}
+
+const sharedMemory = createMemoryArea();
+
+/**
+ * Empty the shared memory area, for tests that depend on its size
+ */
+export function resetMemoryStore() {
+  sharedMemory.entries.clear();
+  sharedMemory.lastPrune = Date.now();
+}
+
+function isExpired(entry: StoredEntry<unknown>): boolean {
+  return entry.expiresAt !== undefined && entry.expiresAt <= Date.now();
+}
+
+// Run on every write. Expired entries that are never read again are swept
+// once a minute, and the least recently used go when the store is full.
+function pruneMemory(area: MemoryArea) {
+  const memory = area.entries;
+  if (Date.now() - area.lastPrune >= MEMORY_PRUNE_INTERVAL_MS) {
+    area.lastPrune = Date.now();
+    memory.forEach((entry, key) => {
+      if (isExpired(entry)) memory.delete(key);
+    });
+  }
+  while (memory.size > MEMORY_STORE_MAX_ENTRIES) {
+    memory.delete(memory.keys().next().value!);
+  }
+}
+
+function toEntry<T>(value: T, ttlSeconds?: number): StoredEntry<T> {
+  return {
+    value,
+    ...(ttlSeconds && { expiresAt: Date.now() + ttlSeconds * 1000 }),
+  };
+}
+
+/**
+ * In-memory store for local development and single-isolate deployments,
+ * capped at MEMORY_STORE_MAX_ENTRIES entries across all prefixes in `area`
+ */
+export function createMemoryStore(
+  prefix = '',
+  area = sharedMemory
+): KeyValueStore {
+  const memory = area.entries;
+  return {
+    async get<T>(key: string) {
+      const entry = memory.get(prefix + key);
+      if (!entry) return null;
+      memory.delete(prefix + key);
+      if (isExpired(entry)) return null;
+      // Moved to the end as the most recently used
+      memory.set(prefix + key, entry);
+      return JSON.parse(entry.value) as T;
+    },
+    async set<T>(key: string, value: T, ttlSeconds?: number) {
+      memory.delete(prefix + key);
+      memory.set(prefix + key, toEntry(JSON.stringify(value), ttlSeconds));
+      pruneMemory(area);
+    },
+    async delete(key: string) {
+      memory.delete(prefix + key);
+    },
+  };
+}
+
+// Shortest expiration KV accepts
+const KV_MIN_TTL_SECONDS = 60;
+
+/**
+ * Store backed by an EdgeOne KV namespace. Expiry is checked against the
+ * value on read and also passed to KV, so keys that are never read again,
+ * such as past rate limit windows, are removed by the namespace itself.
+ */
+export function createKVStore(
+  namespace: EdgeKVNamespace,
+  prefix = ''
+): KeyValueStore {
+  return {
+    async get<T>(key: string) {
+      const entry: StoredEntry<T> | null = await namespace.get(prefix + key, {
+        type: 'json',
+      });
+      if (!entry) return null;
+      if (isExpired(entry)) {
+        await namespace.delete(prefix + key);
+        return null;
+      }
+      return entry.value;
+    },
+    async set<T>(key: string, value: T, ttlSeconds?: number) {
+      await namespace.put(
+        prefix + key,
+        JSON.stringify(toEntry(value, ttlSeconds)),
+        ttlSeconds
+          ? { expirationTtl: Math.max(ttlSeconds, KV_MIN_TTL_SECONDS) }
+          : undefined
+      );
+    },
+    async delete(key: string) {
+      await namespace.delete(prefix + key);
+    },
+  };
+}
+
+/**
+ * Pick the KV namespace named by `env.KV_BINDING` when it is bound,
+ * otherwise fall back to memory, the shared area unless `area` is given
+ */
+export function createStore(
+  env: any,
+  prefix = '',
+  area?: MemoryArea
+): KeyValueStore {
+  const namespace = env?.KV_BINDING && (globalThis as any)[env.KV_BINDING];
+  return namespace
+    ? createKVStore(namespace, prefix)
+    : createMemoryStore(prefix, area);
+}
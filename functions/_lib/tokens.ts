@@ -0,0 +1,41 @@
+// CJK characters are roughly one token each, other text about four characters per token
+const CJK_PATTERN = /[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/;
+const CJK_GLOBAL = new RegExp(CJK_PATTERN.source, 'g');
+
+/**
+ * Rough token estimate used when the backend does not report usage
+ */
+export function estimateTokens(text: string): number {
+  const cjk = text.match(CJK_GLOBAL)?.length || 0;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+/**
+ * Cut text to roughly `maxTokens`, preferring to end on a sentence or word boundary
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  if (estimateTokens(text) <= maxTokens) return text;
+
+  let tokens = 0;
+  let latin = 0;
+  let end = 0;
+  for (; end < text.length; end++) {
+    if (CJK_PATTERN.test(text[end])) {
+      tokens++;
+    } else if (++latin % 4 === 0) {
+      tokens++;
+    }
+    if (tokens >= maxTokens) break;
+  }
+
+  const cut = text.slice(0, end);
+  const boundary = Math.max(
+    cut.lastIndexOf('. '),
+    cut.lastIndexOf('。'),
+    cut.lastIndexOf('\n')
+  );
+  const space = cut.lastIndexOf(' ');
+  const stop =
+    boundary > end * 0.7 ? boundary + 1 : space > end * 0.7 ? space : end;
+  return `${cut.slice(0, stop).trim()}…`;
+}
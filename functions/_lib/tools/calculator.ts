@@ -0,0 +1,138 @@
+// Arithmetic evaluator for the calculator tool, never uses eval
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  abs: Math.abs,
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  exp: Math.exp,
+  ln: Math.log,
+  log: Math.log10,
+  log2: Math.log2,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  min: Math.min,
+  max: Math.max,
+  pow: Math.pow,
+};
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+const TOKEN_PATTERN =
+  /^\s*(\d+(?:\.\d+)?(?:e[+-]?\d+)?|\.\d+|[a-z_]\w*|\*\*|[-+*/%^(),])/;
+
+function tokenize(expression: string): string[] {
+  const tokens: string[] = [];
+  let rest = expression;
+  while (rest.trim()) {
+    const match = rest.match(TOKEN_PATTERN);
+    if (!match) throw new Error(`Unexpected input at: ${rest.trim()}`);
+    tokens.push(match[1]);
+    rest = rest.slice(match[0].length);
+  }
+  return tokens;
+}
+
+/**
+ * Evaluate an arithmetic expression with + - * / % ^, parentheses,
+ * common math functions and the constants pi and e
+ */
+export function evaluate(expression: string): number {
+  const tokens = tokenize(expression.toLowerCase());
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new Error(`Expected "${token}"`);
+  };
+
+  // expression := term (("+" | "-") term)*
+  function parseExpression(): number {
+    let value = parseTerm();
+    while (peek() === '+' || peek() === '-') {
+      value = next() === '+' ? value + parseTerm() : value - parseTerm();
+    }
+    return value;
+  }
+
+  // term := unary (("*" | "/" | "%") unary)*
+  function parseTerm(): number {
+    let value = parseUnary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const operator = next();
+      const right = parseUnary();
+      value =
+        operator === '*'
+          ? value * right
+          : operator === '/'
+            ? value / right
+            : value % right;
+    }
+    return value;
+  }
+
+  // unary := ("+" | "-") unary | power
+  function parseUnary(): number {
+    if (peek() === '-') {
+      next();
+      return -parseUnary();
+    }
+    if (peek() === '+') {
+      next();
+      return parseUnary();
+    }
+    return parsePower();
+  }
+
+  // power := primary (("^" | "**") unary)?, right associative
+  function parsePower(): number {
+    const base = parsePrimary();
+    if (peek() === '^' || peek() === '**') {
+      next();
+      return Math.pow(base, parseUnary());
+    }
+    return base;
+  }
+
+  function parsePrimary(): number {
+    const token = next();
+    if (token === undefined) throw new Error('Unexpected end of expression');
+
+    if (token === '(') {
+      const value = parseExpression();
+      expect(')');
+      return value;
+    }
+
+    if (/^[\d.]/.test(token)) return Number(token);
+
+    if (token in CONSTANTS) return CONSTANTS[token];
+
+    const fn = FUNCTIONS[token];
+    if (fn) {
+      expect('(');
+      const args = [parseExpression()];
+      while (peek() === ',') {
+        next();
+        args.push(parseExpression());
+      }
+      expect(')');
+      return fn(...args);
+    }
+
+    throw new Error(`Unknown token: ${token}`);
+  }
+
+  const result = parseExpression();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected token: ${tokens[position]}`);
+  }
+  return result;
+}
@@ -0,0 +1,211 @@
+import type { ToolCall, ToolDefinition } from '../chat';
+import {
+  UNTRUSTED_NOTE,
+  checkFetchUrl,
+  fetchPageText,
+  filterResults,
+  getDeepReadOptions,
+  getInjectionPolicy,
+  getSearchConfig,
+  sanitizeResults,
+} from '../search';
+import { evaluate } from './calculator';
+
+export interface ToolContext {
+  env: any;
+}
+
+interface BuiltinTool {
+  definition: ToolDefinition;
+  run(args: any, context: ToolContext): Promise<unknown>;
+}
+
+export interface ToolResult {
+  ok: boolean;
+  output: string;
+}
+
+export const BUILTIN_TOOL_NAMES = [
+  'web_search',
+  'fetch_url',
+  'calculator',
+  'current_time',
+] as const;
+
+export type BuiltinToolName = (typeof BUILTIN_TOOL_NAMES)[number];
+
+const BUILTIN_TOOLS: Record<BuiltinToolName, BuiltinTool> = {
+  web_search: {
+    definition: {
+      type: 'function',
+      function: {
+        name: 'web_search',
+        description:
+          'Search the web. Returns the title, url and snippet of each result.',
+        parameters: {
+          type: 'object',
+          properties: {
+            query: { type: 'string', description: 'Search query' },
+            count: {
+              type: 'integer',
+              description: 'Number of results, 1 to 10',
+            },
+          },
+          required: ['query'],
+        },
+      },
+    },
+    async run({ query, count }, { env }) {
+      const { provider, filters, injectionPolicy } = getSearchConfig(env);
+      const response = await provider.search(String(query), {
+        count: Math.min(Math.max(Number(count) || 5, 1), 10),
+        filters,
+      });
+      if (!response.ok) throw new Error(response.error.message);
+
+      // Tool output reaches the model like search context does, so it is
+      // cleaned and flagged the same way
+      const { results } = sanitizeResults(
+        filterResults(response.results, filters),
+        injectionPolicy
+      );
+      return results.map(({ title, url, content, untrusted }) => ({
+        title,
+        url,
+        snippet: content,
+        ...(untrusted && { note: UNTRUSTED_NOTE }),
+      }));
+    },
+  },
+  fetch_url: {
+    definition: {
+      type: 'function',
+      function: {
+        name: 'fetch_url',
+        description: 'Fetch a web page and return its main readable text.',
+        parameters: {
+          type: 'object',
+          properties: {
+            url: { type: 'string', description: 'Absolute http(s) URL' },
+          },
+          required: ['url'],
+        },
+      },
+    },
+    async run({ url }, { env }) {
+      // The URL may come from a search result written to steer the model,
+      // so private hosts and denied domains are refused with a reason
+      const options = getDeepReadOptions(env);
+      const rejected = await checkFetchUrl(String(url), options);
+      if (rejected) throw new Error(`Cannot fetch ${url}: ${rejected}`);
+
+      const text = await fetchPageText(String(url), options);
+      if (!text) throw new Error(`Could not read ${url}`);
+
+      const [page] = sanitizeResults(
+        [{ title: '', url: String(url), content: '', pageContent: text }],
+        getInjectionPolicy(env)
+      ).results;
+      if (!page) {
+        throw new Error(
+          `${url} was withheld because it contains text addressed to AI assistants`
+        );
+      }
+      if (!page.pageContent) throw new Error(`Could not read ${url}`);
+      return page.untrusted
+        ? `${UNTRUSTED_NOTE}\n\n${page.pageContent}`
+        : page.pageContent;
+    },
+  },
+  calculator: {
+    definition: {
+      type: 'function',
+      function: {
+        name: 'calculator',
+        description:
+          'Evaluate an arithmetic expression. Supports + - * / % ^, parentheses, sqrt, log, ln, sin, cos, tan, abs, round, min, max, pi and e.',
+        parameters: {
+          type: 'object',
+          properties: {
+            expression: { type: 'string', description: 'e.g. (2 + 3) * 4' },
+          },
+          required: ['expression'],
+        },
+      },
+    },
+    async run({ expression }) {
+      const result = evaluate(String(expression));
+      if (!Number.isFinite(result)) throw new Error('Result is not finite');
+      return result;
+    },
+  },
+  current_time: {
+    definition: {
+      type: 'function',
+      function: {
+        name: 'current_time',
+        description: 'Get the current date and time.',
+        parameters: {
+          type: 'object',
+          properties: {
+            timezone: {
+              type: 'string',
+              description:
+                'IANA time zone, e.g. Asia/Shanghai. Defaults to UTC.',
+            },
+          },
+        },
+      },
+    },
+    async run({ timezone = 'UTC' }) {
+      const now = new Date();
+      return {
+        iso: now.toISOString(),
+        timezone,
+        local: now.toLocaleString('en-US', {
+          timeZone: timezone,
+          dateStyle: 'full',
+          timeStyle: 'long',
+        }),
+        unix: Math.floor(now.getTime() / 1000),
+      };
+    },
+  },
+};
+
+export function isBuiltinTool(name: string): name is BuiltinToolName {
+  return (BUILTIN_TOOL_NAMES as readonly string[]).includes(name);
+}
+
+export function getToolDefinitions(names: BuiltinToolName[]): ToolDefinition[] {
+  return names.map((name) => BUILTIN_TOOLS[name].definition);
+}
+
+/**
+ * Run a built-in tool call. Failures are returned to the model as the tool
+ * output so it can recover instead of aborting the loop.
+ */
+export async function runBuiltinTool(
+  call: ToolCall,
+  context: ToolContext
+): Promise<ToolResult> {
+  const tool = isBuiltinTool(call.function.name)
+    ? BUILTIN_TOOLS[call.function.name]
+    : null;
+  if (!tool) {
+    return { ok: false, output: `Unknown tool: ${call.function.name}` };
+  }
+
+  try {
+    const args = call.function.arguments
+      ? JSON.parse(call.function.arguments)
+      : {};
+    const result = await tool.run(args, context);
+    return {
+      ok: true,
+      output: typeof result === 'string' ? result : JSON.stringify(result),
+    };
+  } catch (error: any) {
+    return { ok: false, output: `Error: ${error?.message || error}` };
+  }
+}
@@ -0,0 +1,95 @@
+// Request ids from clients are echoed back, so only plain ids are accepted
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+export interface Trace {
+  requestId: string;
+  // Record the time since the request started under `phase`
+  mark(phase: string): void;
+  // Time an async step and record its duration under `phase`
+  time<T>(phase: string, run: () => Promise<T>): Promise<T>;
+  set(fields: Record<string, unknown>): void;
+  // Write the request's log line, later calls are ignored
+  log(fields?: Record<string, unknown>): void;
+  // Pass a model stream through, recording time to first token and stream
+  // time, and log once it ends or the client goes away
+  wrapStream(stream: ReadableStream<Uint8Array>): ReadableStream<Uint8Array>;
+}
+
+/**
+ * Start tracing a request. Everything recorded ends up in one JSON log line.
+ */
+export function createTrace(request: Request): Trace {
+  const started = Date.now();
+  const incoming = request.headers.get('x-request-id') || '';
+  const requestId = REQUEST_ID_PATTERN.test(incoming)
+    ? incoming
+    : crypto.randomUUID();
+  const timings: Record<string, number> = {};
+  const fields: Record<string, unknown> = {};
+  let logged = false;
+
+  const trace: Trace = {
+    requestId,
+    mark(phase) {
+      timings[`${phase}_ms`] = Date.now() - started;
+    },
+    async time(phase, run) {
+      const start = Date.now();
+      try {
+        return await run();
+      } finally {
+        timings[`${phase}_ms`] = Date.now() - start;
+      }
+    },
+    set(extra) {
+      Object.assign(fields, extra);
+    },
+    log(extra = {}) {
+      if (logged) return;
+      logged = true;
+      timings.total_ms = Date.now() - started;
+      console.log(
+        JSON.stringify({
+          level: 'info',
+          msg: 'request',
+          request_id: requestId,
+          method: request.method,
+          path: new URL(request.url).pathname,
+          ...fields,
+          ...extra,
+          timings,
+        })
+      );
+    },
+    wrapStream(stream) {
+      const reader = stream.getReader();
+      let firstChunkAt = 0;
+      return new ReadableStream({
+        async pull(controller) {
+          const { done, value } = await reader.read().catch((error) => {
+            trace.log({ error: error?.message || String(error) });
+            throw error;
+          });
+          if (done) {
+            timings.stream_ms = Date.now() - (firstChunkAt || started);
+            controller.close();
+            trace.log();
+            return;
+          }
+          if (!firstChunkAt) {
+            firstChunkAt = Date.now();
+            // Keep an earlier mark from opening the model stream
+            timings.first_token_ms ||= firstChunkAt - started;
+          }
+          controller.enqueue(value);
+        },
+        cancel(reason) {
+          trace.log({ cancelled: true });
+          return reader.cancel(reason);
+        },
+      });
+    },
+  };
+
+  return trace;
+}
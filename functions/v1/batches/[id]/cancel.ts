@@ -0,0 +1,41 @@
+import { handleOptionsRequest, createResponse } from '../../../_lib/http';
+import { methodNotAllowed, toErrorResponse } from '../../../_lib/errors';
+import { authenticate } from '../../../_lib/auth';
+import {
+  getBatchConfig,
+  getBatchStore,
+  loadBatch,
+  toBatchObject,
+} from '../../../_lib/batch';
+import { createStore } from '../../../_lib/storage';
+
+/**
+ * Stop a running batch. Requests already in flight finish and keep their
+ * results, the batch turns `cancelled` once they have.
+ */
+export async function onRequest({ 请求, env, params }: any) {
+  // Handle preflight requests
+  if (请求.method === 'OPTIONS') {
+    return handleOptionsRequest();
+  }
+
+  try {
+    if (请求.method !== 'POST') {
+      throw methodNotAllowed(请求.method);
+    }
+
+    const auth = await authenticate(请求, env, createStore(env, 'ratelimit:'));
+    const store = getBatchStore(env, getBatchConfig(env));
+    const batch = await loadBatch(store, String(params?.id || ''), auth);
+
+    // Only the runner writes the batch record, so a cancel cannot
+    // overwrite progress or a final status it has just saved
+    if (batch.status === 'in_progress') {
+      await store.requestCancel(batch.id);
+      batch.status = 'cancelling';
+    }
+    return createResponse(toBatchObject(batch));
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
@@ -0,0 +1,30 @@
+import { handleOptionsRequest, createResponse } from '../../../_lib/http';
+import { methodNotAllowed, toErrorResponse } from '../../../_lib/errors';
+import { authenticate } from '../../../_lib/auth';
+import {
+  getBatchConfig,
+  getBatchStore,
+  loadBatch,
+  toBatchObject,
+} from '../../../_lib/batch';
+import { createStore } from '../../../_lib/storage';
+
+export async function onRequest({ 请求, env, params }: any) {
+  // Handle preflight requests
+  if (请求.method === 'OPTIONS') {
+    return handleOptionsRequest();
+  }
+
+  try {
+    if (请求.method !== 'GET') {
+      throw methodNotAllowed(请求.method);
+    }
+
+    const auth = await authenticate(请求, env, createStore(env, 'ratelimit:'));
+    const store = getBatchStore(env, getBatchConfig(env));
+    const batch = await loadBatch(store, String(params?.id || ''), auth);
+    return createResponse(toBatchObject(batch));
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
@@ -0,0 +1,46 @@
+import { handleOptionsRequest, CORS_HEADERS } from '../../../_lib/http';
+import { methodNotAllowed, toErrorResponse } from '../../../_lib/errors';
+import { authenticate } from '../../../_lib/auth';
+import {
+  getBatchConfig,
+  getBatchStore,
+  loadBatch,
+  toResultsJsonl,
+} from '../../../_lib/batch';
+import { createStore } from '../../../_lib/storage';
+
+/**
+ * JSONL results in input order. A running batch returns the lines finished
+ * so far, check `x-batch-status` to know whether more will follow.
+ */
+export async function onRequest({ 请求, env, params }: any) {
+  // Handle preflight requests
+  if (请求.method === 'OPTIONS') {
+    return handleOptionsRequest();
+  }
+
+  try {
+    if (请求.method !== 'GET') {
+      throw methodNotAllowed(请求.method);
+    }
+
+    const auth = await authenticate(请求, env, createStore(env, 'ratelimit:'));
+    const store = getBatchStore(env, getBatchConfig(env));
+    const batch = await loadBatch(store, String(params?.id || ''), auth);
+    const results = await store.getResults(
+      batch.id,
+      batch.request_counts.total
+    );
+
+    return new Response(toResultsJsonl(results), {
+      headers: {
+        ...CORS_HEADERS,
+        'Content-Type': 'application/jsonl',
+        'Access-Control-Expose-Headers': 'x-batch-status',
+        'x-batch-status': batch.status,
+      },
+    });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
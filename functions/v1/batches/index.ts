@@ -0,0 +1,132 @@
+import { handleOptionsRequest, createResponse } from '../../_lib/http';
+import { methodNotAllowed, toErrorResponse } from '../../_lib/errors';
+import { authenticate } from '../../_lib/auth';
+import {
+  BATCH_ENDPOINT,
+  createBatch,
+  getBatchConfig,
+  getBatchStore,
+  parseBatchInput,
+  runBatch,
+  toBatchObject,
+  type BatchRequest,
+  type BatchResult,
+} from '../../_lib/batch';
+import { createStore } from '../../_lib/storage';
+import { onRequest as chatCompletions } from '../chat/completions';
+
+// Requests that hit the caller's per-minute limit are retried after the
+// Retry-After delay instead of being recorded as failures straight away
+const MAX_RATE_LIMIT_RETRIES = 3;
+const MAX_RETRY_DELAY_SECONDS = 60;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run one batch line through the chat completions pipeline, with the
+ * caller's credentials so keys, limits and budgets apply per line
+ */
+async function runRequest(
+  request: BatchRequest,
+  requestId: string,
+  context: { url: string; headers: Headers; env: any; waitUntil: any }
+): Promise<NonNullable<BatchResult['response']>> {
+  // Results are stored as JSON, so lines always run without streaming
+  const { stream, stream_options, ...body } = request.body;
+
+  for (let attempt = 0; ; attempt++) {
+    const headers = new Headers(context.headers);
+    headers.set('Content-Type', 'application/json');
+    headers.set('X-Request-Id', requestId);
+
+    const response: Response = await chatCompletions({
+      请求: new Request(new URL(BATCH_ENDPOINT, context.url), {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ ...body, stream: false }),
+      }),
+      env: context.env,
+      waitUntil: context.waitUntil,
+    });
+
+    const retryAfter = Number(response.headers.get('Retry-After'));
+    if (
+      response.status === 429 &&
+      attempt < MAX_RATE_LIMIT_RETRIES &&
+      retryAfter > 0 &&
+      retryAfter <= MAX_RETRY_DELAY_SECONDS
+    ) {
+      await response.body?.cancel();
+      await sleep(retryAfter * 1000);
+      continue;
+    }
+
+    const text = await response.text();
+    let parsed: unknown = text;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      // Keep non-JSON bodies as text
+    }
+
+    return {
+      status_code: response.status,
+      request_id: response.headers.get('x-request-id'),
+      body: parsed,
+    };
+  }
+}
+
+export async function onRequest({ 请求, env, waitUntil }: any) {
+  // Handle preflight requests
+  if (请求.method === 'OPTIONS') {
+    return handleOptionsRequest();
+  }
+
+  try {
+    if (请求.method !== 'POST') {
+      throw methodNotAllowed(请求.method);
+    }
+
+    const auth = await authenticate(请求, env, createStore(env, 'ratelimit:'));
+    const config = getBatchConfig(env);
+    const requests = parseBatchInput(await 请求.text(), config.maxRequests);
+
+    const store = getBatchStore(env, config);
+    const batch = createBatch(
+      requests.length,
+      auth?.id ?? null,
+      config.ttlSeconds
+    );
+    await store.create(batch, requests);
+
+    // Only the caller's key and language are passed on to the lines
+    const headers = new Headers();
+    for (const name of ['Authorization', 'Accept-Language']) {
+      const value = 请求.headers.get(name);
+      if (value) headers.set(name, value);
+    }
+
+    const job = runBatch(
+      { ...batch, request_counts: { ...batch.request_counts } },
+      {
+        store,
+        concurrency: config.concurrency,
+        run: (request, index) =>
+          runRequest(request, `${batch.id}-${index}`, {
+            url: 请求.url,
+            headers,
+            env,
+            waitUntil,
+          }),
+      }
+    ).catch((error) => console.error('Batch failed:', error));
+    if (waitUntil) {
+      waitUntil(job);
+    }
+
+    return createResponse(toBatchObject(batch));
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
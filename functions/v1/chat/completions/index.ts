@@ -1,177 +1,326 @@
 import { z } from 'zod';
+import {
+  CORS_HEADERS,
+  createResponse,
+  handleOptionsRequest,
+} from '../../../_lib/http';
+import { findModel, getDefaultModel, getModels } from '../../../_lib/models';
+import { authenticate, authorizeModel, chargeTokens } from '../../../_lib/auth';
+import { createStore } from '../../../_lib/storage';
+import { resolveSamplingParams, samplingShape } from '../../../_lib/sampling';
+import {
+  badRequest,
+  catchStreamErrors,
+  methodNotAllowed,
+  notFound,
+  serviceUnavailable,
+  toApiError,
+  toErrorResponse,
+  unprocessable,
+} from '../../../_lib/errors';
+import { encodeSSE, prependToStream } from '../../../_lib/sse';
+import { getFallbackOptions, openWithFallback } from '../../../_lib/fallback';
+import { runAgent, streamAgent } from '../../../_lib/agent';
+import {
+  chatMessageSchema,
+  toolChoiceSchema,
+  toolSchema,
+  type ChatMessage,
+} from '../../../_lib/chat';
+import {
+  collectCompletion,
+  meterStream,
+  replayCompletion,
+  type ChatCompletion,
+} from '../../../_lib/completion';
+import {
+  completionCacheKey,
+  getCacheConfig,
+  getCachedCompletion,
+  isDeterministic,
+  setCachedCompletion,
+  withSearchCache,
+  type CacheStatus,
+} from '../../../_lib/cache';
+import { BUILTIN_TOOL_NAMES, isBuiltinTool } from '../../../_lib/tools';
+import { toPositiveInt } from '../../../_lib/env';
+import {
+  estimateMessageTokens,
+  fitMessages,
+  fitSearchResults,
+  getContextBudget,
+} from '../../../_lib/context';
+import { estimateTokens } from '../../../_lib/tokens';
+import { stripReasoning } from '../../../_lib/reasoning';
+import { createTrace } from '../../../_lib/trace';
+import {
+  renderSearchPrompt,
+  renderSystemPrompt,
+  resolvePromptOptions,
+  type PromptOptions,
+} from '../../../_lib/prompts';
+import { filterCitations, validateCitations } from '../../../_lib/citations';
+import {
+  getModerationConfig,
+  moderateCompletion,
+  moderateMessages,
+  moderateStream,
+} from '../../../_lib/moderation';
+import {
+  deepReadResults,
+  getSearchConfig,
+  normalizeDomain,
+  planSearchQueries,
+  relaxQuery,
+  sanitizeResults,
+  searchMany,
+  type SearchConfig,
+  type SearchError,
+  type SearchResult,
+  type SearchStatus,
+} from '../../../_lib/search';
 
 // Type definitions
-interface SearchResult {
-  title: string;
-  url: string;
-  content: string;
+interface SearchContext {
+  // Rendered search prompt, sent as a system message
+  searchContext?: string;
+  searchResults?: SearchResult[];
+  searchError?: SearchError;
+  searchQueries?: string[];
+  searchStatus?: SearchStatus;
+  searchCached?: boolean;
+  // Results flagged as prompt injection by sanitizing
+  searchFlagged?: number;
 }
 
-interface ProcessedContent {
-  content: string;
-  searchResults?: SearchResult[];
+interface SourceItem {
+  index: number;
+  title: string;
+  url: string;
+  snippet: string;
+  domain: string;
 }
 
 // Schema definitions
+const domainSchema = z
+  .string()
+  .refine(
+    (value) => normalizeDomain(value) !== null,
+    'must be a domain name such as example.com'
+  );
+
 const messageSchema = z
   .object({
-    messages: z.array(
-      z.object({
-        role: z.enum(['user', 'assistant', 'system']),
-        content: z.string(),
-      })
-    ),
+    messages: z.array(chatMessageSchema),
     network: z.boolean().optional(),
     model: z.string().optional(),
+    stream: z.boolean().optional(),
+    stream_options: z
+      .object({ include_usage: z.boolean().optional() })
+      .optional(),
+    deep_read: z.boolean().optional(),
+    tools: z.array(toolSchema).optional(),
+    tool_choice: toolChoiceSchema.optional(),
+    parallel_tool_calls: z.boolean().optional(),
+    cache: z.boolean().optional(),
+    include_reasoning: z.boolean().optional(),
+    search_options: z
+      .object({
+        include_domains: z.array(domainSchema).max(20).optional(),
+        exclude_domains: z.array(domainSchema).max(100).optional(),
+        time_range: z.enum(['day', 'week', 'month', 'year']).optional(),
+        language: z
+          .string()
+          .regex(
+            /^([a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*|all)$/,
+            'must be a language tag such as en or zh-CN'
+          )
+          .optional(),
+        safesearch: z.enum(['off', 'moderate', 'strict']).optional(),
+        max_results: z.number().int().min(1).max(50).optional(),
+      })
+      .optional(),
+    prompt_profile: z.string().optional(),
+    locale: z.string().optional(),
+    timezone: z.string().optional(),
+    agent: z
+      .union([
+        z.boolean(),
+        z.object({
+          max_iterations: z.number().int().min(1).max(10).optional(),
+          tools: z.array(z.enum(BUILTIN_TOOL_NAMES)).optional(),
+        }),
+      ])
+      .optional(),
+    ...samplingShape,
   })
   .passthrough();
 
 /**
- * Search the web using SearXNG
+ * Search the web for the user's latest message and render the results
+ * into the search prompt
  */
-async function searxngSearch(
-  query: string,
-  SEARXNG_URL = 'https://proxy.edgeone.app/search'
-): Promise<SearchResult[]> {
-  try {
-    const params = new URLSearchParams({
-      q: query,
-      format: 'json',
-      engines: 'bing',
-    });
-
-    const headers = {
-      'User-Agent':
-        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/115.0.0.0 Safari/537.36',
-      Origin: 'https://proxy.edgeone.app',
-    };
-
-    const response = await fetch(`${SEARXNG_URL}?${params}`, { headers });
+async function getSearchContext(
+  messages: ChatMessage[],
+  search: SearchConfig | null,
+  searchTokens: number,
+  prompt: PromptOptions
+): Promise<SearchContext> {
+  const lastMessage = messages[messages.length - 1];
+
+  // Tool results and other non-user turns are sent on without searching
+  if (!search || lastMessage.role !== 'user') {
+    return {};
+  }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Search failed: ${errorText}`);
+  try {
+    let { queries } = await planSearchQueries(messages, search.planner);
+    let searchResponse = await searchMany(
+      search.provider,
+      queries,
+      search.count,
+      search.filters
+    );
+    let searchStatus: SearchStatus = 'ok';
+
+    // Retry once with looser queries before giving up on web context
+    if (
+      search.fallback === 'relax' &&
+      searchResponse.ok &&
+      !searchResponse.results.length
+    ) {
+      const relaxed = Array.from(new Set(queries.map(relaxQuery))).filter(
+        (query) => query && !queries.includes(query)
+      );
+      if (relaxed.length) {
+        queries = [...queries, ...relaxed];
+        searchResponse = await searchMany(
+          search.provider,
+          relaxed,
+          search.count,
+          search.filters
+        );
+        searchStatus = 'relaxed';
+      }
     }
 
-    const data = await response.json();
-    return data?.results || [];
-  } catch (error) {
-    console.error('SearXNG search error:', error);
-    return [];
-  }
-}
+    if (!searchResponse.ok) {
+      console.error('Search provider error:', searchResponse.error);
+      return search.fallback === 'fail'
+        ? { searchError: searchResponse.error, searchQueries: queries }
+        : { searchQueries: queries, searchStatus: 'failed' };
+    }
 
-/**
- * Format search results into a readable context string
- */
-function formatSearchResults(results: SearchResult[]): string {
-  return results
-    .map((result, i) => {
-      const index = i + 1;
-      const title = result.title || 'No title';
-      const url = result.url || 'No URL';
-      const snippet = result.content || 'No snippet';
-
-      return `
-[webpage ${index} begin]
-Title: ${title}
-Url: ${url}
-Snippet: ${snippet}
-[webpage ${index} end]
-`;
-    })
-    .join('\n\n');
-}
+    let searchResults = searchResponse.results;
 
-/**
- * Process user input, optionally augmenting with web search results
- */
-async function getContent(
-  input: string,
-  withNetwork: boolean
-): Promise<ProcessedContent> {
-  if (!withNetwork) {
-    return { content: input };
-  }
+    if (!searchResults.length) {
+      return { searchQueries: queries, searchStatus: 'no_results' };
+    }
 
-  try {
-    const searchResults = await searxngSearch(input);
+    if (search.deepRead) {
+      searchResults = await deepReadResults(searchResults, search.deepRead);
+    }
 
-    if (!searchResults.length) {
-      return { content: '' };
+    // Web text is pasted into the prompt, so it must not be able to pose
+    // as part of it
+    const { results: sanitized, flagged } = sanitizeResults(
+      searchResults,
+      search.injectionPolicy
+    );
+    if (!sanitized.length) {
+      return {
+        searchQueries: queries,
+        searchStatus: 'no_results',
+        searchFlagged: flagged,
+      };
     }
+    searchResults = sanitized;
 
-    const context = formatSearchResults(searchResults);
-    const contentWithNetworkSearch = `
-# The following content is search results based on the user's message:
-${context}
-In the search results I provided, each result is in the format of [webpage X begin]...[webpage X end], where X represents the numerical index of each article.
-When answering, please note the following points:
-- Today is ${new Date().toLocaleDateString('zh-CN')}.
-- Not all content in the search results is closely related to the user's question. You need to evaluate and filter the search results based on the question.
-- For listing-type questions (such as listing all flight information), try to limit your answer to no more than 10 points, and tell the user they can check the search sources for complete information. Prioritize providing complete and most relevant list items; unless necessary, don't proactively mention content not provided in search results.
-- For creative questions (such as writing essays), you need to interpret and summarize the user's requirements, choose an appropriate format, fully utilize the search results and extract important information to generate an answer that meets user requirements with intellectual depth, creativity and professionalism. Your creative content should be as lengthy as possible, providing multiple perspectives for each point based on your interpretation of user intent, ensuring information-rich and detailed explanations.
-- If the answer is lengthy, please structure it and summarize by paragraphs. If point-by-point answers are needed, try to limit it to 5 points and merge related content.
-- For objective Q&A, if the answer is very brief, you may add one or two sentences of related information to enrich the content.
-- You need to choose an appropriate and aesthetically pleasing format for your answer based on user requirements and answer content, ensuring strong readability.
-- Your answer should synthesize information from multiple relevant webpages, not repeatedly referencing a single webpage.
-- Unless requested by the user, your response language should match the language of the user's question.
-# User message:
-${input}
-    `;
+    // Keep the web context inside its share of the model's context window
+    searchResults = fitSearchResults(searchResults, searchTokens);
 
     return {
-      content: contentWithNetworkSearch,
+      searchContext: renderSearchPrompt(prompt, searchResults),
       searchResults,
+      searchQueries: queries,
+      searchStatus,
+      searchCached: searchResponse.cached,
+      searchFlagged: flagged,
     };
   } catch (err) {
     console.error('Content processing failed:', err);
-    return { content: input };
+    // Same policy as a provider error, the details stay in the log
+    return search.fallback === 'fail'
+      ? {
+          searchError: {
+            provider: search.provider.name,
+            message: 'the results could not be processed',
+          },
+        }
+      : { searchStatus: 'failed' };
   }
 }
 
 /**
- * Format search results for response headers
+ * Format search results for response headers. Kept for older clients,
+ * the `sources` event carries the full data.
  */
 function formatResultsForHeader(results: SearchResult[]): string {
   return JSON.stringify(
     results.map((item) => ({
-      url: item.url,
+      url: headerUrl(item.url),
       title: encodeURIComponent(item.title),
     }))
   );
 }
 
 /**
- * Create standardized response with CORS headers
+ * Serialize a URL for a header without encoding its escapes a second
+ * time, the URL parser already leaves only ASCII behind
  */
-function createResponse(body: any, status = 200, extraHeaders = {}): Response {
-  const headers = {
-    'Content-Type': 'application/json',
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Methods': 'POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-    ...extraHeaders,
-  };
-
-  return new Response(JSON.stringify(body), { status, headers });
+function headerUrl(url: string): string {
+  try {
+    return new URL(url).href;
+  } catch {
+    return encodeURI(url);
+  }
 }
 
 /**
- * Handle OPTIONS request for CORS preflight
+ * Format search results as the sources list sent to clients
  */
-function handleOptionsRequest(): Response {
-  return new Response(null, {
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
-      'Access-Control-Max-Age': '86400',
-    },
+function formatSources(results: SearchResult[]): SourceItem[] {
+  return results.map((item, i) => {
+    let domain = '';
+    try {
+      domain = new URL(item.url).hostname;
+    } catch {
+      // Leave the domain empty for malformed URLs
+    }
+    return {
+      index: i + 1,
+      title: item.title,
+      url: item.url,
+      snippet: item.content,
+      domain,
+    };
   });
 }
 
-export async function onRequest({ 请求, env }: any) {
+// Response headers browsers are allowed to read
+const EXPOSE_HEADERS = [
+  'x-request-id',
+  'results',
+  'x-search-queries',
+  'x-search-status',
+  'x-model-used',
+  'x-cache',
+  'x-search-cache',
+  'x-context-dropped',
+  'x-context-summarized',
+].join(', ');
+
+export async function onRequest({ 请求, env, waitUntil }: any) {
   // Handle preflight requests
   if (请求.method === 'OPTIONS') {
     return handleOptionsRequest();
@@ -180,85 +329,440 @@ export async function onRequest({ 请求, env }: any) {
   // Remove encoding header to avoid compression issues
   请求.headers.delete('accept-encoding');
 
+  const trace = createTrace(请求);
+
   try {
-    const json = await 请求.clone().json();
+    if (请求.method !== 'POST') {
+      throw methodNotAllowed(请求.method);
+    }
+
+    const rateLimitStore = createStore(env, 'ratelimit:');
+    const auth = await authenticate(请求, env, rateLimitStore);
+
+    const json = await 请求
+      .clone()
+      .json()
+      .catch(() => {
+        throw badRequest(
+          'Request body must be valid JSON.',
+          undefined,
+          'invalid_json'
+        );
+      });
     const parseResult = messageSchema.safeParse(json);
 
     if (!parseResult.success) {
-      return createResponse({ error: parseResult.error.message });
+      const issue = parseResult.error.issues[0];
+      const param = issue.path.join('.');
+      throw badRequest(
+        param ? `${param}: ${issue.message}` : issue.message,
+        param || undefined,
+        'invalid_value'
+      );
+    }
+
+    const {
+      messages,
+      network,
+      model,
+      stream,
+      stream_options,
+      deep_read,
+      tools,
+      tool_choice,
+      parallel_tool_calls,
+      agent,
+      include_reasoning,
+      search_options,
+      prompt_profile,
+      locale,
+      timezone,
+    } = parseResult.data;
+
+    const cache = getCacheConfig(env, parseResult.data.cache !== false);
+
+    const lastMessage = messages[messages.length - 1];
+
+    if (!lastMessage || (!lastMessage.content && lastMessage.role !== 'tool')) {
+      throw badRequest('No input message found.', 'messages', 'missing_input');
     }
 
-    const { messages, network, model } = parseResult.data;
+    // Use the model parameter, fallback to default if not provided
+    const selectedModel = model || getDefaultModel().id;
 
-    const currentInput = messages[messages.length - 1]?.content;
+    const modelConfig = findModel(selectedModel, env);
 
-    if (!currentInput) {
-      return createResponse({ error: 'No input message found' });
+    // Validate the model
+    if (!modelConfig) {
+      throw notFound(
+        `Invalid model: ${selectedModel}. Allowed models: ${getModels(env)
+          .map((item) => item.id)
+          .join(', ')}`,
+        'model_not_found',
+        'model'
+      );
     }
 
-    const { content, searchResults = [] } = await getContent(
-      currentInput,
-      !!network
-    );
+    if (stream === false && stream_options) {
+      throw badRequest(
+        'stream_options is only allowed when stream is true.',
+        'stream_options',
+        'invalid_value'
+      );
+    }
+
+    const sampling = resolveSamplingParams(parseResult.data, modelConfig);
+    const budget = getContextBudget(env, modelConfig, sampling.max_tokens);
+
+    if ((tools?.length || agent) && !modelConfig.tools) {
+      throw badRequest(
+        `Unsupported parameter: ${selectedModel} does not support tool calling.`,
+        tools?.length ? 'tools' : 'agent',
+        'unsupported_parameter'
+      );
+    }
+
+    const agentOptions = agent === true ? {} : agent || null;
+
+    if (
+      agentOptions &&
+      tools?.some((tool) => isBuiltinTool(tool.function.name))
+    ) {
+      throw badRequest(
+        `Tool names ${BUILTIN_TOOL_NAMES.join(', ')} are reserved for the server-side agent.`,
+        'tools',
+        'invalid_value'
+      );
+    }
+
+    const prompt = resolvePromptOptions(env, {
+      profile: prompt_profile,
+      locale,
+      timezone,
+      acceptLanguage: 请求.headers.get('accept-language'),
+    });
+
+    await authorizeModel(auth, selectedModel, rateLimitStore);
+    trace.mark('validation');
+    trace.set({
+      model: selectedModel,
+      stream: stream !== false,
+      network,
+      prompt_profile: prompt.profile,
+    });
+
+    // Checked before search, so blocked or redacted text is never searched
+    const moderation = getModerationConfig(env);
+    const moderationContext = { requestId: trace.requestId };
+    if (moderation) {
+      const decision = await trace.time('moderation', () =>
+        moderateMessages(messages, moderation, moderationContext)
+      );
+      trace.set({ moderation: decision.action });
+    }
 
-    if (!content) {
-      return createResponse({ error: 'No Search Results' });
+    const search = network
+      ? getSearchConfig(env, {
+          deepRead: deep_read,
+          maxResults: search_options?.max_results,
+          filters: {
+            includeDomains: search_options?.include_domains,
+            excludeDomains: search_options?.exclude_domains,
+            timeRange: search_options?.time_range,
+            language: search_options?.language,
+            safesearch: search_options?.safesearch,
+          },
+        })
+      : null;
+    if (search && cache) {
+      search.provider = withSearchCache(search.provider, cache);
     }
 
-    // Update the last message with processed content
-    const processedMessages = [...messages];
-    processedMessages[processedMessages.length - 1] = {
-      role: 'user',
-      content,
+    const {
+      searchContext,
+      searchResults = [],
+      searchError,
+      searchQueries = [],
+      searchStatus,
+      searchCached,
+      searchFlagged,
+    } = await (search
+      ? trace.time('search', () =>
+          getSearchContext(messages, search, budget.searchTokens, prompt)
+        )
+      : getSearchContext(messages, search, budget.searchTokens, prompt));
+
+    if (searchFlagged) {
+      trace.set({ search_flagged: searchFlagged });
+    }
+
+    if (searchError) {
+      throw serviceUnavailable(
+        `Search failed (${searchError.provider}): ${searchError.message}`,
+        'search_unavailable'
+      );
+    }
+
+    if (search?.fallback === 'fail' && searchStatus === 'no_results') {
+      throw unprocessable(
+        'Web search returned no results for this message.',
+        'no_search_results'
+      );
+    }
+
+    // The profile's system prompt only applies when the client sent none
+    const systemPrompt = messages.some((message) => message.role === 'system')
+      ? null
+      : renderSystemPrompt(prompt);
+
+    // Search context goes into its own system message, so it is reported
+    // apart from the user's own prompt tokens and reserved while trimming
+    const searchMessage: ChatMessage | null = searchContext
+      ? { role: 'system', content: searchContext }
+      : null;
+    const searchContextTokens = searchMessage
+      ? estimateMessageTokens(searchMessage)
+      : 0;
+
+    // Trim older history so the prompt fits the model's context window
+    const fitted = fitMessages(
+      [
+        ...(systemPrompt
+          ? [{ role: 'system' as const, content: systemPrompt }]
+          : []),
+        ...messages,
+      ],
+      budget,
+      (tools?.length ? estimateTokens(JSON.stringify(tools)) : 0) +
+        searchContextTokens
+    );
+    const promptTokens = fitted.promptTokens + searchContextTokens;
+
+    // The user's latest message is sent as written, right after the results
+    const processedMessages = searchMessage
+      ? [...fitted.messages.slice(0, -1), searchMessage, lastMessage]
+      : fitted.messages;
+
+    const params = {
+      model: selectedModel,
+      messages: processedMessages,
+      ...sampling,
+      ...(tools?.length && { tools }),
+      ...(tool_choice && { tool_choice }),
+      ...(parallel_tool_calls !== undefined && { parallel_tool_calls }),
     };
 
-    try {
-      // Define allowed models
-      const allowedModels = [
-        '@tx/deepseek-ai/deepseek-r1-distill-qwen-32b',
-        '@tx/deepseek-ai/deepseek-r1-0528',
-        '@tx/deepseek-ai/deepseek-v3-0324',
-        '@tx/deepseek-ai/deepseek-v3.2',
-      ];
-
-      // Use the model parameter, fallback to default if not provided
-      const selectedModel =
-        model || '@tx/deepseek-ai/deepseek-r1-distill-qwen-32b';
-
-      // Validate the model
-      if (!allowedModels.includes(selectedModel)) {
-        return createResponse({
-          error: `Invalid model: ${selectedModel}. Allowed models: ${allowedModels.join(
-            ', '
-          )}`,
-        });
-      }
+    const agentRun = agentOptions && {
+      params,
+      tools: agentOptions.tools || [...BUILTIN_TOOL_NAMES],
+      maxIterations:
+        agentOptions.max_iterations ||
+        toPositiveInt(env?.AGENT_MAX_ITERATIONS, 5),
+      context: { env },
+      searchContextTokens,
+      includeUsage: stream_options?.include_usage,
+    };
 
-      // @ts-ignore-next-line
-      const aiStream = await AI.chatCompletions({
-        model: selectedModel,
-        messages: processedMessages,
-        stream: true,
+    // A fallback model has to handle everything the request asks for
+    let modelUsed = selectedModel;
+    const openModelStream = async () => {
+      const opened = await openWithFallback(params, modelConfig, {
+        ...getFallbackOptions(env),
+        canServe: (fallback) =>
+          (!tools?.length || fallback.tools) &&
+          !fallback.unsupportedParams?.some(
+            (param) => sampling[param] !== undefined
+          ) &&
+          (!sampling.max_tokens ||
+            sampling.max_tokens <= fallback.maxOutputTokens) &&
+          promptTokens <=
+            getContextBudget(env, fallback, sampling.max_tokens).promptTokens,
       });
+      modelUsed = opened.model;
+      // The stream is only handed over once its first chunk has arrived
+      trace.mark('first_token');
+      return opened.stream;
+    };
 
-      return new Response(aiStream, {
-        headers: {
-          results: formatResultsForHeader(searchResults),
-          'Content-Type': 'text/event-stream; charset=utf-8',
-          'Cache-Control': 'no-cache',
-          Connection: 'keep-alive',
-          'Access-Control-Allow-Origin': '*',
-          'Access-Control-Allow-Methods': 'POST, OPTIONS',
-          'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-        },
+    // Deterministic requests can be answered from the completion cache
+    const cacheKey =
+      cache?.completionTtl && !agentRun && isDeterministic(params)
+        ? await completionCacheKey(params)
+        : null;
+    const cached = cacheKey
+      ? await getCachedCompletion(cache!, cacheKey)
+      : null;
+    const cacheStatus: CacheStatus = cached
+      ? 'HIT'
+      : cacheKey
+        ? 'MISS'
+        : 'BYPASS';
+
+    const contextHeaders = {
+      'x-context-dropped': String(fitted.dropped),
+      'x-context-summarized': String(fitted.summarized),
+    };
+
+    const cacheHeaders = {
+      'x-cache': cacheStatus,
+      ...(searchCached !== undefined && {
+        'x-search-cache': !cache?.searchTtl
+          ? 'BYPASS'
+          : searchCached
+            ? 'HIT'
+            : 'MISS',
+      }),
+    };
+
+    // Only an explicit `stream: false` opts out, the UI relies on SSE by default
+    if (stream === false) {
+      let completion: ChatCompletion;
+      if (cached) {
+        completion = cached;
+      } else if (agentRun) {
+        completion = await runAgent(agentRun);
+      } else {
+        const modelStream = await openModelStream();
+        completion = await collectCompletion(
+          modelStream,
+          modelUsed,
+          processedMessages,
+          searchContextTokens
+        );
+      }
+      if (!cached) {
+        await chargeTokens(auth, completion.usage.total_tokens, rateLimitStore);
+      }
+      // Answers from a fallback model are not cached under the requested one
+      if (cacheKey && !cached && modelUsed === selectedModel) {
+        await setCachedCompletion(cache!, cacheKey, completion);
+      }
+      if (include_reasoning === false) {
+        delete completion.choices[0].message.reasoning_content;
+      }
+      if (network && completion.choices[0].message.content) {
+        completion.choices[0].message.content = filterCitations(
+          completion.choices[0].message.content,
+          searchResults.length
+        );
+      }
+      if (moderation) {
+        await moderateCompletion(completion, moderation, moderationContext);
+      }
+      completion.sources = formatSources(searchResults);
+      completion.search_queries = searchQueries;
+      completion.search_status = searchStatus;
+      trace.log({
+        status: 200,
+        model_used: modelUsed,
+        cache: cacheStatus,
+        search_status: searchStatus,
+        context_dropped: fitted.dropped,
+        usage: completion.usage,
+      });
+      return createResponse(completion, 200, {
+        'x-request-id': trace.requestId,
+        'x-model-used': modelUsed,
+        ...cacheHeaders,
+        ...contextHeaders,
+        'Access-Control-Expose-Headers': EXPOSE_HEADERS,
+      });
+    }
+
+    let aiStream: ReadableStream<Uint8Array>;
+
+    if (cached) {
+      aiStream = replayCompletion(cached, stream_options?.include_usage);
+    } else if (agentRun) {
+      aiStream = streamAgent(agentRun, (completion) => {
+        trace.set({ usage: completion.usage });
+        waitUntil?.(
+          chargeTokens(auth, completion.usage.total_tokens, rateLimitStore)
+        );
       });
-    } catch (error: any) {
-      return createResponse({ error: error.message });
+    } else {
+      // Charge the key's daily budget and fill the cache once the stream
+      // ends, or charge what was generated if the client goes away
+      const modelStream = await openModelStream();
+      aiStream = meterStream(
+        modelStream,
+        {
+          model: modelUsed,
+          promptMessages: processedMessages,
+          searchContextTokens,
+          includeUsage: stream_options?.include_usage,
+        },
+        (completion, complete) => {
+          trace.set({ usage: completion.usage });
+          waitUntil?.(
+            Promise.all([
+              chargeTokens(auth, completion.usage.total_tokens, rateLimitStore),
+              complete &&
+                cacheKey &&
+                modelUsed === selectedModel &&
+                setCachedCompletion(cache!, cacheKey, completion),
+            ]).catch((error) =>
+              console.error('Stream accounting failed:', error)
+            )
+          );
+        }
+      );
+    }
+
+    trace.set({
+      status: 200,
+      model_used: modelUsed,
+      cache: cacheStatus,
+      search_status: searchStatus,
+      context_dropped: fitted.dropped,
+    });
+    aiStream = trace.wrapStream(aiStream);
+
+    if (include_reasoning === false) {
+      aiStream = stripReasoning(aiStream);
+    }
+    if (network) {
+      aiStream = validateCitations(aiStream, searchResults.length);
     }
-  } catch (error: any) {
-    return createResponse({
-      error: 'Request processing failed',
-      details: error.message,
+    if (moderation) {
+      aiStream = moderateStream(aiStream, moderation, moderationContext);
+    }
+
+    // Sources go out as a named event ahead of the model tokens
+    const body = network
+      ? prependToStream(aiStream, [
+          encodeSSE(
+            {
+              sources: formatSources(searchResults),
+              queries: searchQueries,
+              search_status: searchStatus,
+            },
+            'sources'
+          ),
+        ])
+      : aiStream;
+
+    return new Response(catchStreamErrors(body), {
+      headers: {
+        results: formatResultsForHeader(searchResults),
+        'x-search-queries': encodeURIComponent(JSON.stringify(searchQueries)),
+        ...(searchStatus && { 'x-search-status': searchStatus }),
+        'x-request-id': trace.requestId,
+        'x-model-used': modelUsed,
+        ...cacheHeaders,
+        ...contextHeaders,
+        'Access-Control-Expose-Headers': EXPOSE_HEADERS,
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        ...CORS_HEADERS,
+      },
     });
+  } catch (error) {
+    const response = toErrorResponse(error);
+    response.headers.set('x-request-id', trace.requestId);
+    response.headers.set('Access-Control-Expose-Headers', 'x-request-id');
+    trace.log({ status: response.status, error: toApiError(error).code });
+    return response;
   }
 }
@@ -0,0 +1,133 @@
+import { createResponse, handleOptionsRequest } from '../../_lib/http';
+import { methodNotAllowed, toErrorResponse } from '../../_lib/errors';
+import {
+  DEFAULT_PROVIDER,
+  getDefaultModel,
+  getModels,
+} from '../../_lib/models';
+import { isProviderConfigured } from '../../_lib/providers';
+import { loadApiKeys } from '../../_lib/auth';
+import { getModerationConfig } from '../../_lib/moderation';
+import { createSearchProvider } from '../../_lib/search';
+import { createStore } from '../../_lib/storage';
+
+// Query sent to check that the search provider answers
+const PROBE_QUERY = 'EdgeOne Pages';
+
+// The route is public, so the probe result is reused for this long rather
+// than letting every call spend a search request
+const PROBE_TTL_SECONDS = 30;
+
+/**
+ * Run one small search and report whether the provider answered
+ */
+async function probeSearch(env: any) {
+  const started = Date.now();
+  try {
+    const provider = createSearchProvider(env);
+    const response = await provider.search(PROBE_QUERY, { count: 1 });
+    return {
+      provider: provider.name,
+      reachable: response.ok,
+      latency_ms: Date.now() - started,
+      ...(!response.ok && { error: response.error.message }),
+    };
+  } catch (error: any) {
+    // A misconfigured provider throws while it is being built
+    return {
+      provider: env?.SEARCH_PROVIDER || 'searxng',
+      reachable: false,
+      latency_ms: Date.now() - started,
+      error: error?.message || String(error),
+    };
+  }
+}
+
+type SearchProbe = Awaited<ReturnType<typeof probeSearch>>;
+
+async function cachedProbeSearch(env: any) {
+  const store = createStore(env, 'health:');
+  const cached = await store.get<SearchProbe>('search');
+  if (cached) return { ...cached, cached: true };
+
+  const probe = await probeSearch(env);
+  await store.set('search', probe, PROBE_TTL_SECONDS);
+  return { ...probe, cached: false };
+}
+
+// Invalid EXTRA_MODELS make every chat request fail as well
+function modelsStatus(env: any) {
+  try {
+    const models = getModels(env);
+    const providers: Record<string, boolean> = {};
+    for (const model of models) {
+      const name = model.provider || DEFAULT_PROVIDER;
+      providers[name] = isProviderConfigured(name, env);
+    }
+    return { count: models.length, providers, valid: true };
+  } catch {
+    return { count: 0, providers: {}, valid: false };
+  }
+}
+
+// Invalid moderation settings make every chat request fail
+function moderationStatus(env: any): 'enabled' | 'disabled' | 'invalid' {
+  try {
+    return getModerationConfig(env) ? 'enabled' : 'disabled';
+  } catch {
+    return 'invalid';
+  }
+}
+
+// Invalid API_KEYS make every chat request fail
+function authStatus(env: any): 'enabled' | 'disabled' | 'invalid' {
+  try {
+    return loadApiKeys(env).length ? 'enabled' : 'disabled';
+  } catch {
+    return 'invalid';
+  }
+}
+
+export async function onRequest({ 请求, env }: any) {
+  // Handle preflight requests
+  if (请求.method === 'OPTIONS') {
+    return handleOptionsRequest();
+  }
+
+  if (请求.method !== 'GET') {
+    return toErrorResponse(methodNotAllowed(请求.method));
+  }
+
+  const search = await cachedProbeSearch(env);
+  const models = modelsStatus(env);
+  const defaultModel = getDefaultModel();
+  const config = {
+    // @ts-ignore-next-line
+    ai_binding: typeof AI !== 'undefined',
+    auth: authStatus(env),
+    moderation: moderationStatus(env),
+    kv: !!(env?.KV_BINDING && (globalThis as any)[env.KV_BINDING]),
+    models: models.count,
+    providers: models.providers,
+    default_model: defaultModel.id,
+  };
+
+  // Without the default model's provider, valid models, valid keys or
+  // valid moderation settings nothing can be answered, a search outage
+  // only means answers go without web context
+  const status =
+    !isProviderConfigured(defaultModel.provider || DEFAULT_PROVIDER, env) ||
+    !models.valid ||
+    config.auth === 'invalid' ||
+    config.moderation === 'invalid'
+      ? 'unavailable'
+      : search.reachable
+        ? 'ok'
+        : 'degraded';
+
+  return createResponse(
+    { status, time: new Date().toISOString(), config, search },
+    status === 'unavailable' ? 503 : 200,
+    { 'Cache-Control': 'no-store' }
+  );
+}
@@ -0,0 +1,115 @@
+import { handleOptionsRequest, createResponse } from '../../_lib/http';
+import { badRequest, methodNotAllowed, toApiError } from '../../_lib/errors';
+import {
+  anthropicRequestSchema,
+  toAnthropicError,
+  toAnthropicErrorType,
+  toAnthropicMessage,
+  toAnthropicStream,
+  toChatRequest,
+} from '../../_lib/anthropic';
+import { onRequest as chatCompletions } from '../chat/completions';
+
+/**
+ * Send an error as an Anthropic `{ type: 'error', error }` body
+ */
+function toErrorResponse(error: unknown): Response {
+  const apiError = toApiError(error);
+  if (apiError.status >= 500) {
+    console.error('Request failed:', error);
+  }
+  return createResponse(
+    toAnthropicError(apiError),
+    apiError.status,
+    apiError.headers
+  );
+}
+
+/**
+ * Rewrite an OpenAI-style error response from the chat pipeline
+ */
+async function translateErrorResponse(response: Response): Promise<Response> {
+  const body = await response.json().catch(() => null);
+  return new Response(
+    JSON.stringify({
+      type: 'error',
+      error: {
+        type: toAnthropicErrorType(response.status),
+        message: body?.error?.message || response.statusText,
+      },
+    }),
+    { status: response.status, headers: response.headers }
+  );
+}
+
+export async function onRequest({ 请求, env, waitUntil }: any) {
+  // Handle preflight requests
+  if (请求.method === 'OPTIONS') {
+    return handleOptionsRequest();
+  }
+
+  try {
+    if (请求.method !== 'POST') {
+      throw methodNotAllowed(请求.method);
+    }
+
+    const json = await 请求.json().catch(() => {
+      throw badRequest(
+        'Request body must be valid JSON.',
+        undefined,
+        'invalid_json'
+      );
+    });
+    const parseResult = anthropicRequestSchema.safeParse(json);
+
+    if (!parseResult.success) {
+      const issue = parseResult.error.issues[0];
+      const param = issue.path.join('.');
+      throw badRequest(
+        param ? `${param}: ${issue.message}` : issue.message,
+        param || undefined,
+        'invalid_value'
+      );
+    }
+
+    const chatRequest = toChatRequest(parseResult.data);
+
+    // Anthropic clients send their key as x-api-key
+    const headers = new Headers(请求.headers);
+    headers.set('Content-Type', 'application/json');
+    const apiKey = 请求.headers.get('x-api-key');
+    if (apiKey && !headers.has('Authorization')) {
+      headers.set('Authorization', `Bearer ${apiKey}`);
+    }
+
+    // Run the request through the chat completions pipeline, so model
+    // validation, limits and web search behave the same on both routes
+    const response: Response = await chatCompletions({
+      请求: new Request(new URL('/v1/chat/completions', 请求.url), {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(chatRequest),
+      }),
+      env,
+      waitUntil,
+    });
+
+    if (!response.ok) {
+      return translateErrorResponse(response);
+    }
+
+    if (!chatRequest.stream) {
+      return new Response(
+        JSON.stringify(toAnthropicMessage(await response.json())),
+        { headers: response.headers }
+      );
+    }
+
+    const model = response.headers.get('x-model-used') || chatRequest.model;
+    return new Response(toAnthropicStream(response.body!, model || ''), {
+      headers: response.headers,
+    });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
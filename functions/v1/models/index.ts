@@ -0,0 +1,20 @@
+import { createResponse, handleOptionsRequest } from '../../_lib/http';
+import { methodNotAllowed, toErrorResponse } from '../../_lib/errors';
+import { toModelList } from '../../_lib/models';
+
+export async function onRequest({ 请求, env }: any) {
+  // Handle preflight requests
+  if (请求.method === 'OPTIONS') {
+    return handleOptionsRequest();
+  }
+
+  if (请求.method !== 'GET') {
+    return toErrorResponse(methodNotAllowed(请求.method));
+  }
+
+  try {
+    return createResponse(toModelList(env));
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}